@@ -0,0 +1,94 @@
+// Mock live track feed for local development (no dependencies):
+//   node scripts/mock-feed-server.mjs [port]
+// Serves a vehicle driving a loop around Moscow, one fix per second, as
+// Server-Sent Events on /sse and as WebSocket text frames on /ws.
+
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+
+const PORT = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+const CENTER = [37.6173, 55.7558];
+const RADIUS_DEG = 0.05;
+const LOOP_SECONDS = 600;
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const sse = new Set();
+const sockets = new Set();
+
+function fix(t) {
+  const a = (2 * Math.PI * (t % LOOP_SECONDS)) / LOOP_SECONDS;
+  // speed varies along the loop so the hotline has something to show
+  const speed = 40 + 30 * Math.sin(3 * a) + 10 * Math.random();
+  return {
+    lon:
+      CENTER[0] +
+      (RADIUS_DEG * Math.cos(a)) / Math.cos((CENTER[1] * Math.PI) / 180),
+    lat: CENTER[1] + RADIUS_DEG * Math.sin(a),
+    speed: Math.round(speed * 10) / 10,
+    timestamp: Date.now(),
+  };
+}
+
+// Unmasked server-to-client text frame
+function textFrame(text) {
+  const payload = Buffer.from(text);
+  const len = payload.length;
+  const header =
+    len < 126
+      ? Buffer.from([0x81, len])
+      : Buffer.from([0x81, 126, len >> 8, len & 0xff]);
+  return Buffer.concat([header, payload]);
+}
+
+const server = createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  if (req.url === "/sse") {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.write("retry: 2000\n\n");
+    sse.add(res);
+    req.on("close", () => sse.delete(res));
+    return;
+  }
+  res.writeHead(404).end();
+});
+
+server.on("upgrade", (req, socket) => {
+  const key = req.headers["sec-websocket-key"];
+  if (req.url !== "/ws" || !key) {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash("sha1")
+    .update(key + WS_GUID)
+    .digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  sockets.add(socket);
+  // client frames are ignored except close (opcode 8)
+  socket.on("data", (buf) => {
+    if ((buf[0] & 0x0f) === 0x8) socket.end(Buffer.from([0x88, 0]));
+  });
+  socket.on("close", () => sockets.delete(socket));
+  socket.on("error", () => sockets.delete(socket));
+});
+
+let t = 0;
+setInterval(() => {
+  const msg = JSON.stringify(fix(t++));
+  for (const res of sse) res.write(`data: ${msg}\n\n`);
+  for (const socket of sockets) socket.write(textFrame(msg));
+}, 1000);
+
+server.listen(PORT, () => {
+  console.log(
+    `Mock feed: http://localhost:${PORT}/sse  ws://localhost:${PORT}/ws`
+  );
+});
@@ -1,16 +1,21 @@
 import { useMemo, useState, useRef, useCallback, useEffect } from "react";
 import DeckGL from "@deck.gl/react";
-import { PathLayer, ScatterplotLayer } from "@deck.gl/layers";
+import { FlyToInterpolator } from "@deck.gl/core";
+import { PathLayer, ScatterplotLayer, TextLayer } from "@deck.gl/layers";
+import {
+  PathStyleExtension,
+  type PathStyleExtensionProps,
+} from "@deck.gl/extensions";
 import { Map } from "react-map-gl/maplibre";
 import maplibregl from "maplibre-gl";
 import {
   generateRandomEvents,
-  buildClusterIndex,
-  composeClusterRenderable,
-  buildClusterLayers,
-  computeBbox,
+  type ClusterAggregations,
   type EventPoint,
 } from "./clusterUtil";
+import { ClusterLayer } from "./ClusterLayer";
+import { HotlineLayer, type HotlineLayerPickingInfo } from "./HotlineLayer";
+import { buildLodLevelsAsync } from "./hotlineWorker";
 
 /**
  * Quick start:
@@ -21,35 +26,81 @@ import {
 
 // --- Example data (lon, lat, speed, timestamp) ---
 
-import type { Point, Segment, BuildResult, NearestResult } from "./hotline";
+import type {
+  Point,
+  Segment,
+  BuildResult,
+  NearestResult,
+  GapRules,
+  TrackGap,
+  LodLevel,
+  ViewState,
+  FitBoundsOptions,
+} from "./hotline";
 import {
-  buildSegments as buildHotlineSegments,
+  buildLodLevels,
+  selectLodLevel,
   createSpeedColorScale,
-  buildGradientCss,
-  findNearestPointOnTrack,
+  haversineKm,
+  interpolateGreatCircle,
+  interpolateAtTime,
+  sliceBuildResultByTime,
+  filterOutliers,
+  fitBounds,
+  resolveMetric,
+  metersPerPixel,
 } from "./hotline";
+import { createPlaybackController, type PlaybackController } from "./playback";
+import { parseTrack, type ImportError } from "./trackImport";
+import {
+  PALETTES,
+  COLORBLIND_SAFE_PALETTES,
+  colorScaleTicks,
+  type ColorScaleOptions,
+  type ColorSpace,
+  type PaletteName,
+} from "./colorScale";
+import { createLiveTrack, followViewState } from "./liveTrack";
+import { createFeedForUrl, type FeedStatus } from "./liveFeed";
+import { addMapLibreHotline, type MapLibreHotline } from "./maplibreHotline";
+import { ProfileChart } from "./ProfileChart";
+import { Legend } from "./Legend";
+import {
+  SPEED_UNITS,
+  formatSpeed,
+  speedFromKmh,
+  speedToKmh,
+  type SpeedUnit,
+} from "./units";
+import { computeTripStats, formatDuration } from "./trackStats";
+import { detectStops, collapseStops, type Stop } from "./stopDetection";
+import {
+  buildTrackCollection,
+  resolveTrackStyle,
+  type TrackInput,
+  type TrackNearestResult,
+} from "./trackCollection";
+import {
+  segmentsToGeoJson,
+  pointsToGpx,
+  pointsToCsv,
+  downloadText,
+} from "./trackExport";
 
 // --- Realistic route fetch (Moscow -> St. Petersburg) using OSRM public demo server ---
 // NOTE: Public demo server has rate limits; for production, self-host OSRM or use a routing provider.
 const ROUTE_START: [number, number] = [37.617635, 55.755814]; // Moscow (lon, lat)
 const ROUTE_END: [number, number] = [131.885, 43.115]; // Vladivostok (lon, lat)
 
-function haversineKm(a: [number, number], b: [number, number]) {
-  const R = 6371;
-  const dLat = ((b[1] - a[1]) * Math.PI) / 180;
-  const dLon = ((b[0] - a[0]) * Math.PI) / 180;
-  const lat1 = (a[1] * Math.PI) / 180;
-  const lat2 = (b[1] * Math.PI) / 180;
-  const sinDLat = Math.sin(dLat / 2);
-  const sinDLon = Math.sin(dLon / 2);
-  const h =
-    sinDLat * sinDLat + Math.cos(lat1) * Math.cos(lat2) * sinDLon * sinDLon;
-  return 2 * R * Math.asin(Math.min(1, Math.sqrt(h)));
+// Camera fitting for the current window size
+function fitViewport(): FitBoundsOptions {
+  return { width: window.innerWidth, height: window.innerHeight, padding: 60 };
 }
 
 function densify(
   coords: [number, number][],
-  targetSpacingMeters = 50
+  targetSpacingMeters = 50,
+  geodesic = false // follow great circles instead of straight lon/lat lines
 ): [number, number][] {
   if (coords.length < 2) return coords;
   const out: [number, number][] = [];
@@ -63,7 +114,11 @@ function densify(
       const steps = Math.floor(distKm / spacingKm);
       for (let s = 1; s < steps; s++) {
         const t = s / steps;
-        out.push([a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t]);
+        out.push(
+          geodesic
+            ? interpolateGreatCircle(a, b, t)
+            : [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t]
+        );
       }
     }
   }
@@ -73,17 +128,23 @@ function densify(
 
 function buildPointsFromRoute(
   rawCoords: [number, number][],
-  spacingMeters = 60
+  spacingMeters = 60,
+  stopsAt: number[] = [0.2, 0.45, 0.7] // route fractions with a parking stop
 ): Point[] {
-  const dense = densify(rawCoords, spacingMeters); // adaptive spacing
+  const dense = densify(rawCoords, spacingMeters, true); // adaptive spacing
   // Compute cumulative distance to derive timestamps & speed profile
   const distsKm: number[] = [0];
   for (let i = 1; i < dense.length; i++) {
     distsKm[i] = distsKm[i - 1] + haversineKm(dense[i - 1], dense[i]);
   }
   const totalKm = distsKm[distsKm.length - 1] || 1;
-  const startTime = Date.now() - totalKm * (1000 * 60); // 1 minute per km into past
+  const STOP_MINUTES = 30;
+  const startTime =
+    Date.now() - (totalKm + stopsAt.length * STOP_MINUTES) * (1000 * 60); // 1 minute per km into past
   const points: Point[] = [];
+  const pendingStops = [...stopsAt].sort((a, b) => a - b);
+  let stopOffset = 0; // ms added by stops so far
+  let spikeAdded = false;
   for (let i = 0; i < dense.length; i++) {
     const frac = distsKm[i] / totalKm; // 0..1 along route
     // Speed model: slower (urban) near ends, faster mid-route (highway), noise added
@@ -93,19 +154,129 @@ function buildPointsFromRoute(
       8 * Math.sin(frac * 40 * Math.PI) + 4 * Math.sin(frac * 90 * Math.PI); // local oscillations
     speed = Math.max(0, Math.min(120, speed));
     const timestamp =
-      startTime + (distsKm[i] / totalKm) * (totalKm * 60 * 1000);
+      startTime + (distsKm[i] / totalKm) * (totalKm * 60 * 1000) + stopOffset;
+    // Synthetic altitude profile (m) so the track can be colored by another metric
+    const altitude =
+      150 + 350 * Math.sin(frac * 6 * Math.PI) ** 2 + 40 * Math.sin(frac * 70);
     const [lon, lat] = dense[i];
-    points.push({ lon, lat, speed, timestamp });
+    // Simulated signal loss: no fixes over a stretch of the route
+    if (frac > 0.55 && frac < 0.57) continue;
+    points.push({ lon, lat, speed, timestamp, metrics: { altitude } });
+    // Simulated GPS spike: one fix ~50 km off the road
+    if (!spikeAdded && frac >= 0.35) {
+      spikeAdded = true;
+      points.push({
+        lon: lon + 0.5,
+        lat: lat + 0.3,
+        speed,
+        timestamp: timestamp + 1000,
+        metrics: { altitude },
+      });
+    }
+    // Parking stop: one jittered fix per minute at ~0 km/h
+    if (pendingStops.length && frac >= pendingStops[0]) {
+      pendingStops.shift();
+      for (let m = 1; m <= STOP_MINUTES; m++) {
+        points.push({
+          lon: lon + (Math.random() - 0.5) * 0.0003,
+          lat: lat + (Math.random() - 0.5) * 0.0002,
+          speed: Math.random() * 2,
+          timestamp: timestamp + m * 60_000,
+          metrics: { altitude },
+        });
+      }
+      stopOffset += STOP_MINUTES * 60_000;
+    }
   }
   return points;
 }
 
-// Segment interface now imported
+// Synthetic fleet: random-walk vehicle tracks around a center (lon, lat)
+function generateFleetTracks(
+  count: number,
+  center: [number, number],
+  pointsPerTrack = 400
+): TrackInput[] {
+  const tracks: TrackInput[] = [];
+  const startTime = Date.now() - pointsPerTrack * 10_000;
+  for (let t = 0; t < count; t++) {
+    let lon = center[0] + (Math.random() - 0.5) * 0.6;
+    let lat = center[1] + (Math.random() - 0.5) * 0.3;
+    let heading = Math.random() * Math.PI * 2;
+    let speed = 40 + Math.random() * 40;
+    const points: Point[] = [];
+    for (let i = 0; i < pointsPerTrack; i++) {
+      heading += (Math.random() - 0.5) * 0.4;
+      speed = Math.max(0, Math.min(110, speed + (Math.random() - 0.5) * 12));
+      const km = (speed * 10) / 3600; // 10 s step
+      lat += (km / 111.32) * Math.cos(heading);
+      lon +=
+        (km / (111.32 * Math.cos((lat * Math.PI) / 180))) * Math.sin(heading);
+      points.push({ lon, lat, speed, timestamp: startTime + i * 10_000 });
+    }
+    tracks.push({ id: `v${t + 1}`, label: `Vehicle ${t + 1}`, points });
+  }
+  return tracks;
+}
+
+// Line breaks: signal loss longer than 10 min, jumps over 5 km or 300 km/h
+const GAP_RULES: GapRules = {
+  maxTimeGapMs: 10 * 60_000,
+  maxDistanceMeters: 5_000,
+  maxSpeedKmh: 300,
+};
+const OUTLIER_MAX_SPEED_KMH = 300;
+
+// Playback speed multipliers (x real time)
+const PLAYBACK_SPEEDS = [10, 60, 300, 1800, 3600];
 
-// Route points will be fetched asynchronously
-// Keep outside component reference only if needed; inside state for reactivity.
+// Color scale modes offered in the legend
+const SCALE_MODES = [
+  { key: "linear", label: "Linear" },
+  { key: "log", label: "Log" },
+  { key: "quantile", label: "Quantile" },
+  { key: "classes", label: "5 classes" },
+  { key: "limits", label: "Speed limits" },
+] as const;
+type ScaleModeKey = (typeof SCALE_MODES)[number]["key"];
+const SPEED_LIMITS = [50, 90, 110]; // km/h class breaks for "limits"
+// "limits" only makes sense for speed
+const scaleModesFor = (isSpeed: boolean) =>
+  SCALE_MODES.filter((m) => isSpeed || m.key !== "limits");
+const SPEED_UNIT_OPTIONS = Object.entries(SPEED_UNITS).map(
+  ([value, { label }]) => ({ value, label })
+);
+const WIDTH_RANGE_PX: [number, number] = [2, 14]; // line width for the width metric
 
-// Utility helpers moved to hotline module
+// Live feed demo: `pnpm mock:feed` serves this URL (ws:// URLs use WebSocket)
+const LIVE_FEED_URL =
+  import.meta.env.VITE_LIVE_FEED_URL ?? "http://localhost:8787/sse";
+const LIVE_WINDOW_MS = 30 * 60_000; // keep the last 30 min of the live track
+const LIVE_FOLLOW_MIN_ZOOM = 13;
+
+// Event clusters: totals per cluster and severity counts for the styling
+const EVENT_AGGREGATIONS: ClusterAggregations = {
+  value: { type: "sum", field: "value" },
+  maxValue: { type: "max", field: "value" },
+  severity: { type: "count", field: "category" },
+};
+const SEVERITY_COLORS = {
+  info: "#3b82f6", // blue-500
+  warning: "#f59e0b", // amber-500
+  critical: "#dc2626", // red-600
+};
+
+// Metrics available for coloring; min/max undefined -> observed range
+const METRICS: {
+  key: string;
+  label: string;
+  unit: string;
+  min?: number;
+  max?: number;
+}[] = [
+  { key: "speed", label: "Speed", unit: "km/h", min: 0, max: 120 },
+  { key: "altitude", label: "Altitude", unit: "m" },
+];
 
 // --- Component ---
 
@@ -113,6 +284,25 @@ export default function HotlineMap() {
   const [points, setPoints] = useState<Point[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<ImportError[]>([]);
+
+  // Never rejects: read and parse failures end up in `error`
+  const handleImportFile = useCallback(async (file: File) => {
+    try {
+      const text = await file.text();
+      const result = parseTrack(text, undefined, file.name);
+      setImportErrors(result.errors);
+      if (result.points.length >= 2) {
+        setError(null);
+        setPoints(result.points);
+      } else {
+        setError(`No usable points in ${file.name}`);
+      }
+    } catch (e: unknown) {
+      setImportErrors([]);
+      setError(`Could not import ${file.name}: ${(e as Error).message}`);
+    }
+  }, []);
 
   useEffect(() => {
     let cancelled = false;
@@ -138,7 +328,8 @@ export default function HotlineMap() {
         const pts = buildPointsFromRoute(coords, spacing);
         if (!cancelled) setPoints(pts);
       } catch (e: unknown) {
-        if (!cancelled) setError((e as Error).message || "Route fetch failed");
+        if (!cancelled)
+          setError(`Route error: ${(e as Error).message || "fetch failed"}`);
       } finally {
         if (!cancelled) setLoading(false);
       }
@@ -148,12 +339,26 @@ export default function HotlineMap() {
       cancelled = true;
     };
   }, []);
-  // Adaptive: if a lot of points, skip extra densification (1) to keep GPU + JS light.
-  const DENSE_LIMIT = 5000;
-  const SUBDIVISIONS = points.length > DENSE_LIMIT ? 1 : 6;
+  // Subdivisions of the full-detail LOD level (coarser levels use 1)
+  const DETAIL_SUBDIVISIONS = 6;
+  // Simplified legs longer than this get extra great-circle subdivisions
+  const MAX_SEGMENT_KM = 25;
+  // Segments follow great circles; cuts and the playback marker must too
+  const INTERPOLATION = "geodesic";
   const HOVER_PIXEL_TOLERANCE = 40;
   const mapRef = useRef<maplibregl.Map | null>(null);
+  const [mapReady, setMapReady] = useState(false);
+  // Current map view (updated on moveend) for LOD selection and culling
+  const [view, setView] = useState<{
+    zoom: number;
+    bbox: [number, number, number, number];
+  } | null>(null);
+  // "deck": PathLayer over segments, "maplibre": single line-gradient layer
+  const [renderer, setRenderer] = useState<"deck" | "maplibre">("deck");
   const [nearestPoint, setNearestPoint] = useState<NearestResult | null>(null);
+  const [nearestTrack, setNearestTrack] = useState<TrackNearestResult | null>(
+    null
+  );
   const [tooltip, setTooltip] = useState<{ x: number; y: number } | null>(null);
   const tooltipRef = useRef<HTMLDivElement | null>(null);
 
@@ -161,171 +366,546 @@ export default function HotlineMap() {
   const [events] = useState<EventPoint[]>(() =>
     generateRandomEvents(15000, [60, 56], 15)
   );
-  const clusterIndex = useMemo(
-    () => buildClusterIndex(events, { radius: 50, maxZoom: 16, minPoints: 2 }),
-    [events]
-  );
-  const [clusterZoom, setClusterZoom] = useState<number>(3);
-  const [clusterData, setClusterData] = useState(() =>
-    composeClusterRenderable(clusterIndex, computeBbox(60, 56, 80), clusterZoom)
-  );
+  // Visible clusters / points, reported by the cluster layer
+  const [visibleClusterCount, setVisibleClusterCount] = useState(0);
+  const [clusterPieOn, setClusterPieOn] = useState(false);
+  // cluster clicks: zoom in until they split, or open the leaves panel
+  const [clusterClickZoom, setClusterClickZoom] = useState(true);
+  // Layer of the last clicked cluster, for leaves / bbox queries
+  const clusterLayerRef = useRef<ClusterLayer | null>(null);
   const [activeClusterId, setActiveClusterId] = useState<number | null>(null);
   const [clusterLeaves, setClusterLeaves] = useState<EventPoint[]>([]);
-  const [leavesLoading, setLeavesLoading] = useState(false);
   const [clusterPanelPos, setClusterPanelPos] = useState<{
     x: number;
     y: number;
   } | null>(null);
 
-  // Cluster updates with change detection to avoid infinite update loops
-  const prevClusterState = useRef<{
-    zoom: number;
-    bbox: [number, number, number, number];
-    hash: string;
-  } | null>(null);
-  const updateClusters = useCallback(
-    (map?: maplibregl.Map) => {
-      const m = map || mapRef.current;
-      if (!m) return;
-      const b = m.getBounds();
-      const z = m.getZoom();
-      const bbox: [number, number, number, number] = [
-        b.getWest(),
-        b.getSouth(),
-        b.getEast(),
-        b.getNorth(),
-      ];
-      const prev = prevClusterState.current;
-      // Simple bbox + zoom equality check
-      const sameZoom = prev && Math.abs(prev.zoom - z) < 1e-6;
-      const sameBbox =
-        prev &&
-        Math.abs(prev.bbox[0] - bbox[0]) < 1e-6 &&
-        Math.abs(prev.bbox[1] - bbox[1]) < 1e-6 &&
-        Math.abs(prev.bbox[2] - bbox[2]) < 1e-6 &&
-        Math.abs(prev.bbox[3] - bbox[3]) < 1e-6;
-      if (sameZoom && sameBbox) return; // nothing changed
-      const renderable = composeClusterRenderable(clusterIndex, bbox, z);
-      // Build a hash of ids to avoid state update if identical content
-      const newHash = renderable
-        .map((d) => `${d.id}:${d.pointCount}`)
-        .join("|");
-      if (prev && prev.hash === newHash) {
-        prevClusterState.current = { zoom: z, bbox, hash: newHash }; // update bbox/zoom refs only
-        return;
-      }
-      prevClusterState.current = { zoom: z, bbox, hash: newHash };
-      setClusterZoom(z);
-      setClusterData(renderable);
-    },
-    [clusterIndex]
+  // Build densified segments and compute min/max of the selected metric
+  const [metricKey, setMetricKey] = useState<string>(METRICS[0].key);
+  const metric = METRICS.find((m) => m.key === metricKey) ?? METRICS[0];
+  // Speeds stay km/h in the data; the unit only affects display and input
+  const [speedUnit, setSpeedUnit] = useState<SpeedUnit>("kmh");
+  const isSpeed = metric.key === "speed";
+  const toDisplay = (v: number) => (isSpeed ? speedFromKmh(v, speedUnit) : v);
+  const fromDisplay = (v: number) => (isSpeed ? speedToKmh(v, speedUnit) : v);
+  const metricUnit = isSpeed ? SPEED_UNITS[speedUnit].label : metric.unit;
+  // Coloring range overrides, in data units
+  const [rangeOverride, setRangeOverride] = useState<{
+    min?: number;
+    max?: number;
+  }>({});
+  const customMin = rangeOverride.min ?? metric.min;
+  const customMax = rangeOverride.max ?? metric.max;
+  // Optional second metric on line width
+  const [widthMetricKey, setWidthMetricKey] = useState<string | null>(null);
+  const widthMetric = METRICS.find((m) => m.key === widthMetricKey) ?? null;
+  const [outlineOn, setOutlineOn] = useState(true);
+  const [trackSelected, setTrackSelected] = useState(false);
+  const [paletteName, setPaletteName] = useState<PaletteName>("hotline");
+  const [scaleModeChoice, setScaleModeChoice] =
+    useState<ScaleModeKey>("linear");
+  // other metrics fall back from "limits" to linear
+  const scaleMode =
+    scaleModeChoice === "limits" && !isSpeed ? "linear" : scaleModeChoice;
+  const [interpolation, setInterpolation] = useState<ColorSpace>("rgb");
+  const colorStops = PALETTES[paletteName];
+  const colorScale = useMemo((): ColorScaleOptions => {
+    switch (scaleMode) {
+      case "log":
+        return { mode: "log", interpolation };
+      case "quantile":
+        return {
+          mode: "quantile",
+          values: points.map(resolveMetric(metricKey)),
+          interpolation,
+        };
+      case "classes":
+        return { classes: 5, interpolation };
+      case "limits":
+        return { classes: SPEED_LIMITS, interpolation };
+      default:
+        return { interpolation };
+    }
+  }, [scaleMode, interpolation, points, metricKey]);
+  // ---- Outliers & gaps ----
+  const [outlierFilterOn, setOutlierFilterOn] = useState(true);
+  const [gapRulesOn, setGapRulesOn] = useState(true);
+  const [showGapConnectors, setShowGapConnectors] = useState(true);
+  const cleaned = useMemo(
+    () =>
+      outlierFilterOn
+        ? filterOutliers(points, OUTLIER_MAX_SPEED_KMH)
+        : { points, rejected: [] },
+    [outlierFilterOn, points]
+  );
+
+  // ---- Stops ----
+  const [collapseStopsOn, setCollapseStopsOn] = useState(true);
+  const [activeStop, setActiveStop] = useState<Stop | null>(null);
+  const stops = useMemo(
+    () =>
+      detectStops(cleaned.points, {
+        speedThreshold: 3,
+        minDurationMs: 5 * 60_000,
+        radiusMeters: 60,
+      }),
+    [cleaned]
+  );
+  const trackPoints = useMemo(
+    () =>
+      collapseStopsOn ? collapseStops(cleaned.points, stops) : cleaned.points,
+    [collapseStopsOn, cleaned, stops]
   );
 
-  // Build densified segments and compute min/max speed
-  const customMin = 0; // configurable
-  const customMax = 120; // configurable
-  const colorStops = useMemo(
-    () => ["#00aa00", "#ffff00", "#ffa500", "#ff0000"],
-    []
+  // Built in a worker; the previous levels stay on screen meanwhile
+  const [lodLevels, setLodLevels] = useState<LodLevel[]>(() =>
+    buildLodLevels([], { subdivisions: 1 })
   );
-  const {
-    segments,
-    minSpeed,
-    maxSpeed,
-    initialViewState,
-    gridIndex,
-    gridSize,
-  }: BuildResult = useMemo(
+  const [buildProgress, setBuildProgress] = useState<number | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    setBuildProgress(0);
+    buildLodLevelsAsync(
+      trackPoints,
+      {
+        subdivisions: DETAIL_SUBDIVISIONS,
+        metric: metricKey,
+        minValueOverride: customMin,
+        maxValueOverride: customMax,
+        gaps: gapRulesOn ? GAP_RULES : undefined,
+        interpolation: INTERPOLATION,
+        maxSegmentKm: MAX_SEGMENT_KM,
+        viewport: fitViewport(),
+        widthMetric: widthMetricKey ?? undefined,
+      },
+      { signal: controller.signal, onProgress: setBuildProgress }
+    )
+      .then((levels) => {
+        setLodLevels(levels);
+        setBuildProgress(null);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError(`Track build failed: ${(err as Error).message}`);
+        setBuildProgress(null);
+      });
+    return () => controller.abort();
+  }, [
+    trackPoints,
+    metricKey,
+    widthMetricKey,
+    customMin,
+    customMax,
+    gapRulesOn,
+  ]);
+  const fullDetail = lodLevels[lodLevels.length - 1];
+  const lodLevel = selectLodLevel(lodLevels, view?.zoom ?? 0);
+  const trackSegments = fullDetail.result.segments;
+  const trackStart = trackSegments[0]?.time0 ?? 0;
+  const trackEnd = trackSegments[trackSegments.length - 1]?.time1 ?? 0;
+
+  // Optional time window [start, end] applied on top of the active LOD level
+  const [timeWindow, setTimeWindow] = useState<[number, number] | null>(null);
+  // Camera override (e.g. zoom to a range selected on the profile chart);
+  // transition fields animate the change
+  const [cameraView, setCameraView] = useState<
+    | (ViewState & {
+        transitionDuration?: number;
+        transitionInterpolator?: FlyToInterpolator;
+      })
+    | null
+  >(null);
+  useEffect(() => {
+    setTimeWindow(null);
+    setCameraView(null);
+  }, [trackStart, trackEnd]);
+  const windowed = useMemo(
     () =>
-      buildHotlineSegments(points, {
-        subdivisions: SUBDIVISIONS,
-        minSpeedOverride: customMin,
-        maxSpeedOverride: customMax,
+      timeWindow
+        ? sliceBuildResultByTime(
+            lodLevel.result,
+            timeWindow[0],
+            timeWindow[1],
+            {
+              minValueOverride: customMin,
+              maxValueOverride: customMax,
+              interpolation: INTERPOLATION,
+            }
+          )
+        : lodLevel.result,
+    [lodLevel, timeWindow, customMin, customMax]
+  );
+  const { segments, minValue, maxValue, gaps }: BuildResult = windowed;
+  // Camera stays on the whole track when switching levels or windows
+  const initialViewState = cameraView ?? fullDetail.result.initialViewState;
+
+  // ---- Fleet (multi-track) demo ----
+  const [fleetOn, setFleetOn] = useState(false);
+  const [fleetInputs] = useState<TrackInput[]>(() =>
+    generateFleetTracks(24, [37.617635, 55.755814])
+  );
+  const [selectedTrackIds, setSelectedTrackIds] = useState<string[]>([]);
+  const fleet = useMemo(
+    () =>
+      buildTrackCollection(fleetInputs, {
+        subdivisions: 1,
+        metric: "speed",
+        minValueOverride: 0,
+        maxValueOverride: 120,
+        colors: ["#00aa00", "#ffff00", "#ffa500", "#ff0000"],
+        width: 4,
       }),
-    [points, SUBDIVISIONS, customMin, customMax]
+    [fleetInputs]
+  );
+
+  // ---- Live feed ----
+  const [liveOn, setLiveOn] = useState(false);
+  const [liveStatus, setLiveStatus] = useState<FeedStatus | null>(null);
+  const [liveResult, setLiveResult] = useState<BuildResult | null>(null);
+  const [followLive, setFollowLive] = useState(true);
+  useEffect(() => {
+    if (!liveOn) return;
+    const track = createLiveTrack({
+      subdivisions: 2,
+      metric: "speed",
+      minValueOverride: 0,
+      maxValueOverride: 120,
+      gaps: GAP_RULES,
+      maxAgeMs: LIVE_WINDOW_MS,
+    });
+    const feed = createFeedForUrl(LIVE_FEED_URL);
+    feed.connect((pts) => {
+      if (track.append(pts)) setLiveResult(track.result());
+    }, setLiveStatus);
+    return () => {
+      feed.disconnect();
+      setLiveResult(null);
+      setLiveStatus(null);
+    };
+  }, [liveOn]);
+  const liveVehicle = useMemo(() => {
+    const segs = liveResult?.segments;
+    if (!segs?.length) return null;
+    return interpolateAtTime(segs, segs[segs.length - 1].time1);
+  }, [liveResult]);
+  const liveColor = useMemo(
+    () => createSpeedColorScale(0, 120, colorStops),
+    [colorStops]
+  );
+  // Follow camera: recentre on every new fix, keeping the user's zoom
+  useEffect(() => {
+    if (!liveOn || !followLive || !liveVehicle) return;
+    const zoom = Math.max(mapRef.current?.getZoom() ?? 0, LIVE_FOLLOW_MIN_ZOOM);
+    setCameraView((current) =>
+      followViewState(
+        current ?? { longitude: 0, latitude: 0, zoom, pitch: 0, bearing: 0 },
+        liveVehicle,
+        { zoom }
+      )
+    );
+  }, [liveOn, followLive, liveVehicle]);
+
+  // ---- Playback ----
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(PLAYBACK_SPEEDS[3]);
+  const playbackRef = useRef<PlaybackController | null>(null);
+  useEffect(() => {
+    if (trackEnd <= trackStart) return;
+    const controller = createPlaybackController({
+      startTime: trackStart,
+      endTime: trackEnd,
+      onTick: setPlaybackTime,
+      onStateChange: setPlaying,
+    });
+    playbackRef.current = controller;
+    setPlaybackTime(null);
+    return () => {
+      controller.destroy();
+      playbackRef.current = null;
+      setPlaying(false);
+    };
+  }, [trackStart, trackEnd]);
+  useEffect(() => {
+    playbackRef.current?.setSpeed(playbackSpeed);
+  }, [playbackSpeed, trackStart, trackEnd]);
+  const vehicle = useMemo(
+    () =>
+      playbackTime != null
+        ? interpolateAtTime(trackSegments, playbackTime, INTERPOLATION)
+        : null,
+    [trackSegments, playbackTime]
   );
 
-  const speedToColor = useMemo(
-    () => createSpeedColorScale(minSpeed, maxSpeed, colorStops),
-    [minSpeed, maxSpeed, colorStops]
+  const valueToColor = useMemo(
+    () => createSpeedColorScale(minValue, maxValue, colorStops, colorScale),
+    [minValue, maxValue, colorStops, colorScale]
   );
 
+  // MapLibre-only renderer: the same cleaned points, gaps and time window as
+  // the deck build (hover still goes through handleHover)
+  const mapLibreHotlineRef = useRef<MapLibreHotline | null>(null);
+  const mapLibrePoints = useMemo(
+    () =>
+      timeWindow
+        ? trackPoints.filter(
+            (p) => p.timestamp >= timeWindow[0] && p.timestamp <= timeWindow[1]
+          )
+        : trackPoints,
+    [trackPoints, timeWindow]
+  );
+  useEffect(() => {
+    const map = mapRef.current;
+    if (
+      renderer !== "maplibre" ||
+      !mapReady ||
+      !map ||
+      mapLibrePoints.length < 2
+    )
+      return;
+    const hotline = addMapLibreHotline(map, mapLibrePoints, {
+      metric: metricKey,
+      colors: colorStops,
+      colorScale,
+      minValue: customMin,
+      maxValue: customMax,
+      gaps: gapRulesOn ? GAP_RULES : undefined,
+    });
+    mapLibreHotlineRef.current = hotline;
+    return () => {
+      mapLibreHotlineRef.current = null;
+      hotline.remove();
+    };
+  }, [
+    renderer,
+    mapReady,
+    mapLibrePoints,
+    gapRulesOn,
+    metricKey,
+    colorStops,
+    colorScale,
+    customMin,
+    customMax,
+  ]);
+
+  // ---- Trip statistics (whole track or the time window) ----
+  // Both come from the cleaned build, bucketed by the bands drawn on the map
+  const tripStats = useMemo(
+    () =>
+      computeTripStats(
+        timeWindow
+          ? sliceBuildResultByTime(
+              fullDetail.result,
+              timeWindow[0],
+              timeWindow[1],
+              { interpolation: INTERPOLATION }
+            )
+          : fullDetail.result,
+        {
+          bucketEdges: colorScaleTicks(minValue, maxValue, {
+            ...colorScale,
+            colors: colorStops,
+          }),
+        }
+      ),
+    [timeWindow, fullDetail, minValue, maxValue, colorScale, colorStops]
+  );
+
+  // ---- Profile chart <-> map linking ----
+  const [chartXAxis, setChartXAxis] = useState<"distance" | "time">("distance");
+  const handleChartHover = useCallback(
+    (time: number | null) => {
+      const pos =
+        time != null
+          ? interpolateAtTime(trackSegments, time, INTERPOLATION)
+          : null;
+      setTooltip(null);
+      setNearestTrack(null);
+      setNearestPoint(pos ? { ...pos, distMeters: 0 } : null);
+    },
+    [trackSegments]
+  );
+  const handleChartSelect = useCallback(
+    (startTime: number, endTime: number) => {
+      const range = sliceBuildResultByTime(
+        fullDetail.result,
+        startTime,
+        endTime,
+        { interpolation: INTERPOLATION }
+      );
+      if (range.bbox) setCameraView(fitBounds(range.bbox, fitViewport()));
+    },
+    [fullDetail]
+  );
+
+  const handleExport = useCallback(
+    (format: "geojson" | "gpx" | "csv") => {
+      if (format === "geojson") {
+        // the whole track is exported, so color it over its own range rather
+        // than the time window's
+        const { minValue, maxValue } = fullDetail.result;
+        const fc = segmentsToGeoJson(
+          fullDetail.result,
+          createSpeedColorScale(minValue, maxValue, colorStops, colorScale)
+        );
+        downloadText(
+          "hotline.geojson",
+          JSON.stringify(fc),
+          "application/geo+json"
+        );
+      } else if (format === "gpx") {
+        downloadText("track.gpx", pointsToGpx(points), "application/gpx+xml");
+      } else {
+        downloadText("track.csv", pointsToCsv(points), "text/csv");
+      }
+    },
+    [fullDetail, colorStops, colorScale, points]
+  );
+
+  // Hover on the main or a fleet track: HotlineLayer picks the nearest point
   const handleHover = useCallback(
-    (info: {
-      coordinate?: [number, number];
-      x?: number;
-      y?: number;
-      viewport?: { project?: (lngLat: [number, number]) => number[] };
-    }) => {
-      if (!info.coordinate) {
+    (info: HotlineLayerPickingInfo) => {
+      let match: NearestResult | null =
+        info.layer instanceof HotlineLayer ? info.object ?? null : null;
+      // deck covers the MapLibre map, so ask the MapLibre hotline directly
+      const mapLibreHotline = mapLibreHotlineRef.current;
+      if (!match && mapLibreHotline && info.coordinate && info.viewport) {
+        const [lon, lat] = info.coordinate;
+        const tolerance =
+          metersPerPixel(info.viewport.zoom, lat) * HOVER_PIXEL_TOLERANCE;
+        match = mapLibreHotline.findNearest(lon, lat, tolerance);
+      }
+      if (!match) {
         setNearestPoint(null);
+        setNearestTrack(null);
         setTooltip(null);
         return;
       }
-      const [lon, lat] = info.coordinate;
-      const nearest = findNearestPointOnTrack(
-        lon,
-        lat,
-        segments,
-        gridIndex,
-        gridSize
+      const track = info.layer?.id.startsWith("fleet-")
+        ? fleet.byId[info.layer.id.slice("fleet-".length)]
+        : undefined;
+      setNearestPoint(match);
+      setNearestTrack(
+        track ? { ...match, trackId: track.id, label: track.label } : null
       );
-      // derive meter threshold from pixel tolerance
-      let thresholdMeters = 500; // fallback large
-      try {
-        const vp = info.viewport as unknown as {
-          zoom?: number;
-          distanceScales?: { metersPerPixel?: number[] };
-        };
-        if (vp?.distanceScales?.metersPerPixel) {
-          const mPerPx = vp.distanceScales.metersPerPixel[0];
-          if (Number.isFinite(mPerPx))
-            thresholdMeters = mPerPx * HOVER_PIXEL_TOLERANCE;
-        } else if (vp?.zoom != null) {
-          const latRad = (info.coordinate[1] * Math.PI) / 180;
-          const mPerPxApprox =
-            (156543.03392 * Math.cos(latRad)) / Math.pow(2, vp.zoom);
-          thresholdMeters = mPerPxApprox * HOVER_PIXEL_TOLERANCE;
-        }
-      } catch {
-        /* ignore */
-      }
-      if (nearest && nearest.distMeters < thresholdMeters) {
-        setNearestPoint(nearest);
-        let x = info.x ?? 0;
-        let y = info.y ?? 0;
-        try {
-          if (info.viewport && typeof info.viewport.project === "function") {
-            const p = info.viewport.project([nearest.lon, nearest.lat]);
-            if (Array.isArray(p) && p.length >= 2) {
-              x = p[0];
-              y = p[1];
-            }
-          }
-        } catch {
-          // ignore
-        }
-        setTooltip({ x, y });
-      } else {
-        setNearestPoint(null);
-        setTooltip(null);
-      }
+      const [x, y] = info.viewport?.project([match.lon, match.lat]) ?? [
+        info.x,
+        info.y,
+      ];
+      setTooltip({ x, y });
     },
-    [segments, gridIndex, gridSize]
+    [fleet]
+  );
+
+  const hotlineWidth = useMemo(
+    () =>
+      widthMetric
+        ? {
+            minValue: widthMetric.min ?? fullDetail.result.widthRange?.[0],
+            maxValue: widthMetric.max ?? fullDetail.result.widthRange?.[1],
+            minWidth: WIDTH_RANGE_PX[0],
+            maxWidth: WIDTH_RANGE_PX[1],
+          }
+        : 6,
+    [widthMetric, fullDetail]
   );
 
   const layers = [
-    new PathLayer<Segment>({
-      id: "hotline-track",
-      data: segments,
-      getPath: (d) => d.path,
-      getColor: (d) => speedToColor(d.speed),
-      getWidth: 6,
-      widthUnits: "pixels",
-      capRounded: true,
-      jointRounded: true,
-      pickable: false,
-    }),
+    ...(renderer === "deck"
+      ? [
+          new HotlineLayer({
+            id: "hotline-track",
+            data: [],
+            result: windowed,
+            // full detail is only drawn for the visible part of the track
+            cull: lodLevel === fullDetail,
+            playbackTime,
+            interpolation: INTERPOLATION,
+            colors: colorStops,
+            colorScale,
+            width: hotlineWidth,
+            outline: outlineOn,
+            selected: trackSelected,
+            pickable: true,
+            hoverTolerancePx: HOVER_PIXEL_TOLERANCE,
+            // App draws its own marker, shared with the profile chart
+            showNearestMarker: false,
+          }),
+        ]
+      : []),
+    ...(showGapConnectors && gaps.length
+      ? [
+          // Dashed "no data" connectors across gaps
+          new PathLayer<TrackGap, PathStyleExtensionProps<TrackGap>>({
+            id: "hotline-gaps",
+            data: gaps,
+            getPath: (d) => d.path,
+            getColor: [107, 114, 128, 200],
+            getWidth: 2,
+            widthUnits: "pixels",
+            getDashArray: [4, 3],
+            dashJustified: true,
+            extensions: [new PathStyleExtension({ dash: true })],
+            pickable: false,
+          }),
+        ]
+      : []),
+    ...(fleetOn
+      ? fleet.tracks.flatMap((track) => {
+          const style = resolveTrackStyle(track, {
+            selectedIds: selectedTrackIds,
+            highlightedId: nearestTrack?.trackId,
+          });
+          if (!style.visible) return [];
+          return [
+            new HotlineLayer({
+              id: `fleet-${track.id}`,
+              data: [],
+              result: track.result,
+              colors: track.colors,
+              width: style.width,
+              opacity: style.alpha / 255,
+              pickable: true,
+              hoverTolerancePx: HOVER_PIXEL_TOLERANCE,
+              showNearestMarker: false,
+            }),
+          ];
+        })
+      : []),
+    ...(liveResult
+      ? [
+          new PathLayer<Segment>({
+            id: "live-track",
+            data: liveResult.segments,
+            getPath: (d) => d.path,
+            getColor: (d) => liveColor(d.value),
+            // the segments array grows in place: re-read it on every result
+            updateTriggers: { getPath: liveResult, getColor: liveColor },
+            getWidth: 6,
+            widthUnits: "pixels",
+            capRounded: true,
+            jointRounded: true,
+            pickable: false,
+          }),
+        ]
+      : []),
+    ...(liveVehicle
+      ? [
+          new ScatterplotLayer({
+            id: "live-vehicle",
+            data: [liveVehicle],
+            getPosition: (d) => [d.lon, d.lat],
+            getRadius: 9,
+            radiusUnits: "pixels",
+            stroked: true,
+            filled: true,
+            getFillColor: [16, 185, 129, 255],
+            getLineColor: [255, 255, 255, 255],
+            lineWidthMinPixels: 2,
+            pickable: false,
+          }),
+        ]
+      : []),
     ...(nearestPoint
       ? [
           new ScatterplotLayer<NearestResult>({
@@ -343,10 +923,64 @@ export default function HotlineMap() {
           }),
         ]
       : []),
+    ...(vehicle
+      ? [
+          new ScatterplotLayer({
+            id: "playback-vehicle",
+            data: [vehicle],
+            getPosition: (d) => [d.lon, d.lat],
+            getRadius: 11,
+            radiusUnits: "pixels",
+            stroked: true,
+            filled: true,
+            getFillColor: [37, 99, 235, 255],
+            getLineColor: [255, 255, 255, 255],
+            lineWidthMinPixels: 2,
+            pickable: false,
+          }),
+          new TextLayer({
+            id: "playback-vehicle-heading",
+            data: [vehicle],
+            getPosition: (d) => [d.lon, d.lat],
+            getText: () => "▲",
+            getAngle: (d) => -d.heading,
+            getSize: 12,
+            sizeUnits: "pixels",
+            getColor: [255, 255, 255, 255],
+            characterSet: ["▲"],
+            getTextAnchor: () => "middle",
+            getAlignmentBaseline: () => "center",
+            pickable: false,
+          }),
+        ]
+      : []),
+    new ScatterplotLayer<Stop>({
+      id: "stop-markers",
+      data: stops,
+      getPosition: (d) => [d.lon, d.lat],
+      getRadius: (d) => (d.id === activeStop?.id ? 9 : 7),
+      radiusUnits: "pixels",
+      stroked: true,
+      filled: true,
+      getFillColor: [220, 38, 38, 230],
+      getLineColor: [255, 255, 255, 255],
+      lineWidthMinPixels: 2,
+      updateTriggers: { getRadius: activeStop?.id },
+      pickable: true,
+      onClick: (info) => {
+        const stop = info.object as Stop | undefined;
+        setActiveStop(stop && stop.id !== activeStop?.id ? stop : null);
+        return true;
+      },
+    }),
     // Cluster layers (events)
-    ...buildClusterLayers({
-      data: clusterData,
-      idPrefix: "evt",
+    new ClusterLayer({
+      id: "evt",
+      data: events,
+      radius: 50,
+      maxZoom: 16,
+      minPoints: 2,
+      aggregations: EVENT_AGGREGATIONS,
       clusterRadiusPx: 20,
       clusterBorderPx: 6,
       clusterFillColor: [255, 255, 255, 255],
@@ -354,6 +988,33 @@ export default function HotlineMap() {
       singlePointRadius: 3,
       singlePointColor: [59, 130, 246, 180],
       textColor: [55, 65, 81, 255],
+      // red border when any event in the cluster is critical
+      getClusterBorderColor: (d) =>
+        d.categories?.severity?.critical
+          ? [220, 38, 38, 255]
+          : [59, 130, 246, 255],
+      getClusterRadius: (d) => 14 + 4 * Math.log10(d.pointCount),
+      pie: clusterPieOn
+        ? { aggregation: "severity", colors: SEVERITY_COLORS }
+        : undefined,
+      zoomOnClick: clusterClickZoom,
+      spiderfy: clusterClickZoom,
+      onError: (err) => {
+        setError(err.message);
+        return true;
+      },
+      onZoomTo: ({ longitude, latitude, zoom }) =>
+        setCameraView({
+          longitude,
+          latitude,
+          zoom,
+          pitch: mapRef.current?.getPitch() ?? 0,
+          bearing: mapRef.current?.getBearing() ?? 0,
+          transitionDuration: 500,
+          transitionInterpolator: new FlyToInterpolator(),
+        }),
+      pickable: true,
+      onClustersChange: (clusters) => setVisibleClusterCount(clusters.length),
     }),
   ];
 
@@ -363,10 +1024,28 @@ export default function HotlineMap() {
         initialViewState={initialViewState}
         controller={true}
         layers={layers}
-        onClick={(info: { object?: unknown; x: number; y: number }) => {
+        onDragStart={() => setFollowLive(false)}
+        onClick={(info: {
+          object?: unknown;
+          layer?: unknown;
+          x: number;
+          y: number;
+        }) => {
           type ClickedObj = { id?: string | number; isCluster?: boolean };
           const obj = info.object as ClickedObj | undefined;
+          if (info.layer instanceof HotlineLayer && !nearestTrack) {
+            setTrackSelected((s) => !s);
+            return;
+          }
+          if (info.layer instanceof HotlineLayer && nearestTrack) {
+            const id = nearestTrack.trackId;
+            setSelectedTrackIds((prev) =>
+              prev.includes(id) ? prev.filter((t) => t !== id) : [...prev, id]
+            );
+            return;
+          }
           if (!obj || !obj.isCluster || typeof obj.id === "undefined") return;
+          if (!(info.layer instanceof ClusterLayer)) return;
           const clusterIdNum = Number(obj.id);
           if (!Number.isFinite(clusterIdNum)) return;
           if (activeClusterId === clusterIdNum) {
@@ -376,7 +1055,6 @@ export default function HotlineMap() {
             return;
           }
           setActiveClusterId(clusterIdNum);
-          setLeavesLoading(true);
           const clickX = info.x;
           const clickY = info.y;
           if (typeof clickX === "number" && typeof clickY === "number") {
@@ -384,68 +1062,18 @@ export default function HotlineMap() {
           } else {
             setClusterPanelPos(null);
           }
-          type Position = number[];
-          interface LeafFeature {
-            id?: string | number;
-            properties?: { value?: number; name?: string };
-            geometry: { coordinates: Position };
-          }
-          const gathered: EventPoint[] = [];
-          let offset = 0;
-          const PAGE = 50;
-          try {
-            while (offset < 1000) {
-              const batch = clusterIndex.getLeaves(
-                clusterIdNum,
-                PAGE,
-                offset
-              ) as unknown as LeafFeature[];
-              if (!batch.length) break;
-              for (const l of batch) {
-                const name = l.properties?.name || (l.id ?? "leaf").toString();
-                const coords = l.geometry.coordinates;
-                if (
-                  Array.isArray(coords) &&
-                  coords.length >= 2 &&
-                  typeof coords[0] === "number" &&
-                  typeof coords[1] === "number"
-                ) {
-                  const lon = coords[0];
-                  const lat = coords[1];
-                  gathered.push({
-                    id: (l.id ?? "leaf").toString(),
-                    lon,
-                    lat,
-                    value: l.properties?.value,
-                    name,
-                  });
-                }
-              }
-              if (batch.length < PAGE) break;
-              offset += PAGE;
-            }
-            setClusterLeaves(gathered);
-          } finally {
-            setLeavesLoading(false);
-          }
-        }}
-        onHover={(pi) => {
-          const { coordinate, x, y, viewport } = pi as unknown as {
-            coordinate?: number[];
-            x: number;
-            y: number;
-            viewport?: { project?: (lngLat: [number, number]) => number[] };
-          };
-          handleHover({
-            coordinate:
-              coordinate && coordinate.length >= 2
-                ? ([coordinate[0], coordinate[1]] as [number, number])
-                : undefined,
-            x,
-            y,
-            viewport,
-          });
+          clusterLayerRef.current = info.layer;
+          setClusterLeaves([]);
+          info.layer
+            .getLeaves(clusterIdNum, 1000)
+            .then((leaves) =>
+              setClusterLeaves(
+                leaves.map((l) => ({ ...l, name: l.name || l.id }))
+              )
+            )
+            .catch((err: Error) => setError(err.message));
         }}
+        onHover={handleHover}
       >
         <Map
           reuseMaps
@@ -453,19 +1081,74 @@ export default function HotlineMap() {
           mapStyle="https://basemaps.cartocdn.com/gl/positron-gl-style/style.json"
           onLoad={(e: { target: maplibregl.Map }) => {
             mapRef.current = e.target;
-            updateClusters(e.target);
-            e.target.on("moveend", () => updateClusters());
+            setMapReady(true);
+            const updateView = () => {
+              const b = e.target.getBounds();
+              setView({
+                zoom: e.target.getZoom(),
+                bbox: [b.getWest(), b.getSouth(), b.getEast(), b.getNorth()],
+              });
+            };
+            updateView();
+            e.target.on("moveend", updateView);
           }}
         />
       </DeckGL>
+      <div className="absolute top-4 left-4 bg-white/90 text-gray-800 px-3 py-2 rounded shadow text-xs space-y-1">
+        <label className="cursor-pointer font-medium hover:text-blue-600">
+          Import track (GPX, KML, GeoJSON, CSV)
+          <input
+            type="file"
+            accept=".gpx,.kml,.geojson,.json,.csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImportFile(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        {points.length > 1 && (
+          <div className="flex gap-2 text-gray-600">
+            <span>Export:</span>
+            {(["geojson", "gpx", "csv"] as const).map((f) => (
+              <button
+                key={f}
+                className="uppercase hover:text-blue-600"
+                onClick={() => handleExport(f)}
+              >
+                {f}
+              </button>
+            ))}
+          </div>
+        )}
+        {importErrors.length > 0 && (
+          <details className="text-red-700">
+            <summary>{importErrors.length} rows skipped</summary>
+            <div className="max-h-32 overflow-y-auto">
+              {importErrors.slice(0, 100).map((err, i) => (
+                <div key={i}>
+                  {err.feature ? `Feature ${err.feature}` : `Row ${err.row}`}:{" "}
+                  {err.message}
+                </div>
+              ))}
+            </div>
+          </details>
+        )}
+      </div>
       {loading && (
         <div className="absolute top-4 right-4 bg-white/90 text-gray-800 px-3 py-2 rounded shadow text-xs">
           Loading route…
         </div>
       )}
+      {!loading && buildProgress != null && (
+        <div className="absolute top-4 right-4 bg-white/90 text-gray-800 px-3 py-2 rounded shadow text-xs">
+          Building track… {Math.round(buildProgress * 100)}%
+        </div>
+      )}
       {error && (
         <div className="absolute top-4 right-4 bg-red-600 text-white px-3 py-2 rounded shadow text-xs max-w-xs">
-          Route error: {error}
+          {error}
         </div>
       )}
       {nearestPoint &&
@@ -487,6 +1170,12 @@ export default function HotlineMap() {
                 ref={tooltipRef}
                 className="bg-white text-gray-900 border border-gray-300 rounded-md shadow-lg px-2.5 py-2 text-xs leading-tight"
               >
+                {nearestTrack && (
+                  <div>
+                    <span className="font-semibold">Track:</span>{" "}
+                    {nearestTrack.label}
+                  </div>
+                )}
                 <div>
                   <span className="font-semibold">Lon:</span>{" "}
                   {nearestPoint.lon.toFixed(5)}
@@ -497,8 +1186,17 @@ export default function HotlineMap() {
                 </div>
                 <div>
                   <span className="font-semibold">Speed:</span>{" "}
-                  {nearestPoint.speed.toFixed(1)} km/h
+                  {formatSpeed(nearestPoint.speed, speedUnit)}
                 </div>
+                {metric.key !== "speed" && (
+                  <div>
+                    <span className="font-semibold">{metric.label}:</span>{" "}
+                    {Number.isFinite(nearestPoint.value)
+                      ? nearestPoint.value.toFixed(1)
+                      : "-"}{" "}
+                    {metric.unit}
+                  </div>
+                )}
                 <div>
                   <span className="font-semibold">Time:</span>{" "}
                   {new Date(nearestPoint.timestamp).toLocaleString()}
@@ -508,26 +1206,503 @@ export default function HotlineMap() {
           );
         })()}
 
-      {/* Simple legend */}
-      <div className="absolute bottom-4 left-4 bg-white/90 rounded-2xl shadow p-3 text-sm">
-        <div className="font-medium mb-2">Speed</div>
-        <div className="flex items-center gap-2">
-          <span>low</span>
-          <div
-            className="h-2 w-40 rounded-full"
-            style={{ background: buildGradientCss(colorStops) }}
+      {trackEnd > trackStart && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-white/90 text-gray-800 rounded-2xl shadow px-3 py-2 text-xs flex items-center gap-3">
+          <button
+            className="font-medium w-12 hover:text-blue-600"
+            onClick={() =>
+              playing
+                ? playbackRef.current?.pause()
+                : playbackRef.current?.play()
+            }
+          >
+            {playing ? "Pause" : "Play"}
+          </button>
+          <input
+            type="range"
+            className="w-64"
+            min={trackStart}
+            max={trackEnd}
+            value={playbackTime ?? trackStart}
+            onChange={(e) => playbackRef.current?.seek(Number(e.target.value))}
           />
-          <span>high</span>
+          <span className="w-36 tabular-nums">
+            {playbackTime != null
+              ? new Date(playbackTime).toLocaleString()
+              : "—"}
+          </span>
+          {vehicle && (
+            <span className="w-16 tabular-nums">
+              {formatSpeed(vehicle.speed, speedUnit, 0)}
+            </span>
+          )}
+          <select
+            className="bg-transparent"
+            value={playbackSpeed}
+            onChange={(e) => setPlaybackSpeed(Number(e.target.value))}
+          >
+            {PLAYBACK_SPEEDS.map((v) => (
+              <option key={v} value={v}>
+                ×{v}
+              </option>
+            ))}
+          </select>
+          {playbackTime != null && (
+            <button
+              className="text-gray-500 hover:text-gray-800"
+              onClick={() => {
+                playbackRef.current?.pause();
+                setPlaybackTime(null);
+              }}
+            >
+              Stop
+            </button>
+          )}
         </div>
-        <div className="mt-2 text-xs text-gray-600">
-          Min: {Number.isFinite(minSpeed) ? minSpeed.toFixed(1) : "-"} · Max:{" "}
-          {Number.isFinite(maxSpeed) ? maxSpeed.toFixed(1) : "-"}
+      )}
+
+      {trackSegments.length > 1 && (
+        <div className="absolute top-16 right-4 bg-white/90 rounded-2xl shadow p-3 text-gray-800">
+          <ProfileChart
+            segments={trackSegments}
+            minValue={fullDetail.result.minValue}
+            maxValue={fullDetail.result.maxValue}
+            colors={colorStops}
+            colorScale={colorScale}
+            xAxis={chartXAxis}
+            cursorTime={nearestPoint?.timestamp ?? null}
+            onHoverTime={handleChartHover}
+            onSelectRange={handleChartSelect}
+            label={metric.label}
+            unit={metricUnit}
+            formatValue={(v) => toDisplay(v).toFixed(0)}
+          />
+          <div className="mt-1 flex gap-2 text-[11px] text-gray-600">
+            {(["distance", "time"] as const).map((axis) => (
+              <label key={axis} className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  checked={chartXAxis === axis}
+                  onChange={() => setChartXAxis(axis)}
+                />
+                {axis}
+              </label>
+            ))}
+            {cameraView && (
+              <button
+                className="ml-auto text-blue-600 hover:underline"
+                onClick={() => setCameraView(null)}
+              >
+                reset view
+              </button>
+            )}
+          </div>
         </div>
-        <div className="mt-3 pt-3 border-t text-xs text-gray-700 space-y-1">
-          <div className="font-medium">Clusters</div>
-          <div>Total events: {events.length.toLocaleString()}</div>
-          <div>Visible items: {clusterData.length}</div>
+      )}
+
+      <div className="absolute bottom-4 left-4 flex items-end gap-3">
+        {activeStop && (
+          <div className="absolute top-16 left-4 bg-white/95 text-gray-800 rounded-lg shadow px-3 py-2 text-xs space-y-0.5">
+            <div className="flex justify-between gap-4 font-semibold">
+              <span>Stop</span>
+              <button
+                className="text-gray-500 hover:text-gray-800"
+                onClick={() => setActiveStop(null)}
+              >
+                ×
+              </button>
+            </div>
+            <div>From: {new Date(activeStop.start).toLocaleString()}</div>
+            <div>To: {new Date(activeStop.end).toLocaleString()}</div>
+            <div>Duration: {formatDuration(activeStop.durationMs)}</div>
+            <div>
+              {activeStop.lon.toFixed(5)}, {activeStop.lat.toFixed(5)}
+            </div>
+          </div>
+        )}
+
+        {/* Simple legend */}
+        <div className="bg-white/90 rounded-2xl shadow p-3 text-sm">
+          <Legend
+            minValue={minValue}
+            maxValue={maxValue}
+            colors={colorStops}
+            colorScale={colorScale}
+            title={
+              <select
+                className="bg-transparent font-medium"
+                value={metricKey}
+                onChange={(e) => {
+                  setMetricKey(e.target.value);
+                  setRangeOverride({});
+                }}
+              >
+                {METRICS.map((m) => (
+                  <option key={m.key} value={m.key}>
+                    {m.label}
+                  </option>
+                ))}
+              </select>
+            }
+            unit={metricUnit}
+            formatValue={(v) => toDisplay(v).toFixed(0)}
+            units={isSpeed ? SPEED_UNIT_OPTIONS : undefined}
+            selectedUnit={speedUnit}
+            onUnitChange={(u) => setSpeedUnit(u as SpeedUnit)}
+          />
+          <div className="mt-2 flex flex-wrap gap-2 text-xs text-gray-600">
+            <select
+              value={paletteName}
+              onChange={(e) => setPaletteName(e.target.value as PaletteName)}
+            >
+              {(Object.keys(PALETTES) as PaletteName[]).map((p) => (
+                <option key={p} value={p}>
+                  {p}
+                  {COLORBLIND_SAFE_PALETTES.includes(p) ? " (CVD-safe)" : ""}
+                </option>
+              ))}
+            </select>
+            <select
+              value={scaleMode}
+              onChange={(e) =>
+                setScaleModeChoice(e.target.value as ScaleModeKey)
+              }
+            >
+              {scaleModesFor(isSpeed).map((m) => (
+                <option key={m.key} value={m.key}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={interpolation}
+              onChange={(e) => setInterpolation(e.target.value as ColorSpace)}
+            >
+              <option value="rgb">RGB</option>
+              <option value="oklab">OKLab</option>
+              <option value="hcl">HCL</option>
+            </select>
+          </div>
+          <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-600">
+            <span>Width:</span>
+            <select
+              value={widthMetricKey ?? ""}
+              onChange={(e) => setWidthMetricKey(e.target.value || null)}
+            >
+              <option value="">constant</option>
+              {METRICS.map((m) => (
+                <option key={m.key} value={m.key}>
+                  {m.label} ({m.unit})
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={outlineOn}
+                onChange={(e) => setOutlineOn(e.target.checked)}
+              />
+              Outline
+            </label>
+            {trackSelected && (
+              <button
+                className="text-blue-600 hover:underline"
+                onClick={() => setTrackSelected(false)}
+              >
+                deselect
+              </button>
+            )}
+          </div>
+          <div className="mt-2 flex gap-2 text-xs text-gray-600">
+            <span>Renderer:</span>
+            {(["deck", "maplibre"] as const).map((r) => (
+              <label key={r} className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  checked={renderer === r}
+                  onChange={() => setRenderer(r)}
+                />
+                {r === "deck" ? "deck.gl" : "MapLibre"}
+              </label>
+            ))}
+          </div>
+          <div className="mt-2 text-xs text-gray-600">
+            Min:{" "}
+            {Number.isFinite(minValue) ? toDisplay(minValue).toFixed(1) : "-"} ·
+            Max:{" "}
+            {Number.isFinite(maxValue) ? toDisplay(maxValue).toFixed(1) : "-"}
+          </div>
+          <div className="mt-1 flex items-center gap-1 text-xs text-gray-600">
+            <span>Range:</span>
+            {(["min", "max"] as const).map((end) => {
+              const current = rangeOverride[end];
+              const fallback = metric[end];
+              return (
+                <input
+                  // remount when the unit changes so the text is re-converted
+                  key={`${end}-${metricKey}-${speedUnit}`}
+                  type="number"
+                  className="w-16 bg-transparent border rounded px-1"
+                  placeholder={
+                    fallback != null ? toDisplay(fallback).toFixed(0) : "auto"
+                  }
+                  defaultValue={
+                    current != null ? +toDisplay(current).toFixed(2) : ""
+                  }
+                  onChange={(e) => {
+                    const text = e.target.value;
+                    const v = Number(text);
+                    setRangeOverride((r) => ({
+                      ...r,
+                      [end]:
+                        text === "" || !Number.isFinite(v)
+                          ? undefined
+                          : fromDisplay(v),
+                    }));
+                  }}
+                />
+              );
+            })}
+            <span>{metricUnit}</span>
+          </div>
+          {trackEnd > trackStart && (
+            <div className="mt-3 pt-3 border-t text-xs text-gray-700 space-y-1">
+              <label className="flex items-center gap-1 font-medium">
+                <input
+                  type="checkbox"
+                  checked={!!timeWindow}
+                  onChange={(e) =>
+                    setTimeWindow(
+                      e.target.checked ? [trackStart, trackEnd] : null
+                    )
+                  }
+                />
+                Time window
+              </label>
+              {timeWindow && (
+                <div className="space-y-0.5">
+                  {([0, 1] as const).map((edge) => (
+                    <div key={edge} className="flex items-center gap-2">
+                      <input
+                        type="range"
+                        className="w-40"
+                        min={trackStart}
+                        max={trackEnd}
+                        step={1000}
+                        value={timeWindow[edge]}
+                        onChange={(e) => {
+                          const t = Number(e.target.value);
+                          const [start, end] = timeWindow;
+                          setTimeWindow(
+                            edge === 0
+                              ? [Math.min(t, end), end]
+                              : [start, Math.max(t, start)]
+                          );
+                        }}
+                      />
+                      <span className="tabular-nums">
+                        {new Date(timeWindow[edge]).toLocaleString()}
+                      </span>
+                    </div>
+                  ))}
+                  <div className="text-gray-500">
+                    {segments.length.toLocaleString()} segments in window
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          <div className="mt-3 pt-3 border-t text-xs text-gray-700 space-y-1">
+            <label className="flex items-center gap-1 font-medium">
+              <input
+                type="checkbox"
+                checked={collapseStopsOn}
+                onChange={(e) => setCollapseStopsOn(e.target.checked)}
+              />
+              Collapse stops ({stops.length} detected)
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={outlierFilterOn}
+                onChange={(e) => setOutlierFilterOn(e.target.checked)}
+              />
+              Drop outliers ({cleaned.rejected.length} rejected)
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={gapRulesOn}
+                onChange={(e) => setGapRulesOn(e.target.checked)}
+              />
+              Break at gaps ({fullDetail.result.gaps.length})
+            </label>
+            {gapRulesOn && (
+              <label className="flex items-center gap-1 pl-4">
+                <input
+                  type="checkbox"
+                  checked={showGapConnectors}
+                  onChange={(e) => setShowGapConnectors(e.target.checked)}
+                />
+                Show no-data connectors
+              </label>
+            )}
+          </div>
+          <div className="mt-3 pt-3 border-t text-xs text-gray-700 space-y-1">
+            <label className="flex items-center gap-1 font-medium">
+              <input
+                type="checkbox"
+                checked={fleetOn}
+                onChange={(e) => setFleetOn(e.target.checked)}
+              />
+              Fleet ({fleet.tracks.length} tracks)
+            </label>
+            {fleetOn && (
+              <div>
+                {selectedTrackIds.length
+                  ? `Selected: ${selectedTrackIds
+                      .map((id) => fleet.byId[id]?.label ?? id)
+                      .join(", ")}`
+                  : "Click a track to select it"}
+                {selectedTrackIds.length > 0 && (
+                  <button
+                    className="ml-2 text-blue-600 hover:underline"
+                    onClick={() => setSelectedTrackIds([])}
+                  >
+                    clear
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+          <div className="mt-3 pt-3 border-t text-xs text-gray-700 space-y-1">
+            <label className="flex items-center gap-1 font-medium">
+              <input
+                type="checkbox"
+                checked={liveOn}
+                onChange={(e) => setLiveOn(e.target.checked)}
+              />
+              Live feed
+              {liveStatus && (
+                <span className="font-normal text-gray-500">
+                  ({liveStatus})
+                </span>
+              )}
+            </label>
+            {liveOn && (
+              <>
+                <div className="text-gray-500 truncate">{LIVE_FEED_URL}</div>
+                {liveVehicle && (
+                  <div>
+                    {formatSpeed(liveVehicle.speed, speedUnit)} at{" "}
+                    {new Date(liveVehicle.timestamp).toLocaleTimeString()}
+                  </div>
+                )}
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={followLive}
+                    onChange={(e) => setFollowLive(e.target.checked)}
+                  />
+                  Follow vehicle
+                </label>
+              </>
+            )}
+          </div>
+          <div className="mt-3 pt-3 border-t text-xs text-gray-700 space-y-1">
+            <div className="font-medium">Clusters</div>
+            <div>Total events: {events.length.toLocaleString()}</div>
+            <div>Visible items: {visibleClusterCount}</div>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={clusterPieOn}
+                onChange={(e) => setClusterPieOn(e.target.checked)}
+              />
+              Severity donut
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={clusterClickZoom}
+                onChange={(e) => setClusterClickZoom(e.target.checked)}
+              />
+              Click zooms in (spiderfies at max zoom)
+            </label>
+          </div>
         </div>
+        {tripStats.elapsedMs > 0 && (
+          <div className="bg-white/90 rounded-2xl shadow p-3 text-xs text-gray-700 w-64 space-y-1">
+            <div className="font-medium text-sm text-gray-900">
+              Trip{timeWindow ? " (window)" : ""}
+            </div>
+            <div className="grid grid-cols-2 gap-x-2">
+              <span>Distance</span>
+              <span>{tripStats.distanceKm.toFixed(1)} km</span>
+              <span>Elapsed</span>
+              <span>{formatDuration(tripStats.elapsedMs)}</span>
+              <span>Moving</span>
+              <span>{formatDuration(tripStats.movingMs)}</span>
+              <span>Stopped</span>
+              <span>{formatDuration(tripStats.stoppedMs)}</span>
+              {tripStats.gapMs > 0 && (
+                <>
+                  <span>In gaps</span>
+                  <span>{formatDuration(tripStats.gapMs)}</span>
+                </>
+              )}
+              <span>Avg (moving)</span>
+              <span>{formatSpeed(tripStats.avgMovingSpeed, speedUnit)}</span>
+              <span>Max</span>
+              <span>{formatSpeed(tripStats.maxSpeed, speedUnit)}</span>
+            </div>
+            <div className="pt-1 space-y-0.5">
+              {tripStats.buckets.map((b) => {
+                const c = valueToColor((b.from + b.to) / 2);
+                const share =
+                  b.durationMs /
+                  (tripStats.movingMs + tripStats.stoppedMs || 1);
+                return (
+                  <div key={b.from} className="flex items-center gap-2">
+                    <span className="w-16 tabular-nums">
+                      {toDisplay(b.from).toFixed(0)}–
+                      {toDisplay(b.to).toFixed(0)}
+                    </span>
+                    <div className="flex-1 h-2 bg-gray-100 rounded">
+                      <div
+                        className="h-2 rounded"
+                        style={{
+                          width: `${share * 100}%`,
+                          background: `rgb(${c[0]}, ${c[1]}, ${c[2]})`,
+                        }}
+                      />
+                    </div>
+                    <span className="w-16 text-right tabular-nums">
+                      {formatDuration(b.durationMs)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+            <details>
+              <summary className="cursor-pointer">
+                By day ({tripStats.byDay.length}) / hour (
+                {tripStats.byHour.length})
+              </summary>
+              <div className="max-h-40 overflow-y-auto">
+                {[...tripStats.byDay, ...tripStats.byHour].map((p) => (
+                  <div key={p.key} className="flex justify-between gap-2">
+                    <span>{p.key}</span>
+                    <span className="tabular-nums">
+                      {p.distanceKm.toFixed(0)} km ·{" "}
+                      {formatDuration(p.durationMs)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </details>
+          </div>
+        )}
       </div>
       {activeClusterId != null &&
         clusterPanelPos &&
@@ -550,6 +1725,19 @@ export default function HotlineMap() {
             >
               <div className="px-3 py-2 border-b flex items-center justify-between text-xs font-semibold bg-gray-50">
                 <span>Кластер {activeClusterId}</span>
+                <button
+                  className="ml-auto mr-2 font-normal text-blue-600 hover:underline"
+                  onClick={() => {
+                    clusterLayerRef.current
+                      ?.getClusterBbox(activeClusterId)
+                      .then((bbox) => {
+                        if (bbox) setCameraView(fitBounds(bbox, fitViewport()));
+                      })
+                      .catch((err: Error) => setError(err.message));
+                  }}
+                >
+                  приблизить
+                </button>
                 <button
                   className="text-gray-500 hover:text-gray-800"
                   onClick={() => {
@@ -562,9 +1750,7 @@ export default function HotlineMap() {
                 </button>
               </div>
               <div className="p-2 text-[11px] text-gray-600 border-b">
-                {leavesLoading
-                  ? "Загрузка…"
-                  : `Событий: ${clusterLeaves.length}`}
+                {`Событий: ${clusterLeaves.length}`}
               </div>
               <div className="flex-1 overflow-y-auto text-xs">
                 {clusterLeaves.map((ev) => (
@@ -580,7 +1766,7 @@ export default function HotlineMap() {
                     </div>
                   </div>
                 ))}
-                {!leavesLoading && !clusterLeaves.length && (
+                {!clusterLeaves.length && (
                   <div className="px-3 py-4 text-gray-400 text-center text-[11px]">
                     Нет событий
                   </div>
@@ -0,0 +1,468 @@
+// Self-updating deck.gl cluster layer: owns a supercluster index for its
+// points, built and queried in a worker (see buildClusterIndexAsync), so large
+// inputs don't block the UI thread. It re-queries clusters from its own
+// viewport (padded, so panning rarely needs a new query) and animates
+// clusters splitting / merging when the zoom level changes. Picked objects
+// are ClusterLayerData; single points also carry the original event as
+// `info.leaf`. Clicking a cluster zooms to where it splits (through onZoomTo)
+// or, when zooming cannot split it, spiderfies its leaves around it. Failed
+// index builds and queries go to the standard onError prop.
+
+import { CompositeLayer } from "@deck.gl/core";
+import type {
+  CompositeLayerProps,
+  DefaultProps,
+  GetPickingInfoParams,
+  LayerContext,
+  PickingInfo,
+  UpdateParameters,
+} from "@deck.gl/core";
+import { LineLayer, ScatterplotLayer } from "@deck.gl/layers";
+import type { Bbox } from "./hotline";
+import type {
+  BuildClusterIndexOptions,
+  ClusterLayerData,
+  EventPoint,
+  SpiderShape,
+} from "./clusterUtil";
+import { spiderfyOffsets } from "./clusterUtil";
+import type { BuildClusterLayersParams } from "./clusterLayers";
+import { buildClusterLayers } from "./clusterLayers";
+import type { ClusterIndexHandle } from "./hotlineWorker";
+import { buildClusterIndexAsync } from "./hotlineWorker";
+import { containsBbox, sameProp } from "./layerUtil";
+
+export interface ClusterLayerProps
+  extends CompositeLayerProps,
+    BuildClusterIndexOptions,
+    Omit<BuildClusterLayersParams, "data" | "idPrefix"> {
+  data: EventPoint[];
+  transitionDuration?: number; // ms of split / merge animation, 0 = off (default 300)
+  onClustersChange?: (clusters: ClusterLayerData[]) => void; // after each query
+  zoomOnClick?: boolean; // cluster clicks call onZoomTo (default true)
+  onZoomTo?: (view: {
+    longitude: number;
+    latitude: number;
+    zoom: number;
+  }) => void;
+  spiderfy?: boolean | SpiderfyOptions; // for clusters zooming can't split (default true)
+}
+
+export interface SpiderfyOptions {
+  shape?: SpiderShape; // default "auto": circle up to 9 leaves, spiral beyond
+  spacingPx?: number; // between neighbouring leaves (default 28)
+  maxLeaves?: number; // leaves fanned out (default 100)
+  leafRadiusPx?: number; // default 6
+  legColor?: [number, number, number, number];
+}
+
+export type ClusterLayerPickingInfo = PickingInfo<
+  ClusterLayerData,
+  { leaf?: EventPoint }
+>;
+
+interface Spider {
+  clusterId: number;
+  center: [number, number];
+  leaves: EventPoint[];
+}
+
+interface ClusterTransition {
+  items: ClusterLayerData[]; // drawn while animating
+  from: [number, number][];
+  to: [number, number][];
+  start: number;
+}
+
+type ClusterLayerState = {
+  index: ClusterIndexHandle | null; // null until the first build finishes
+  build: AbortController | null; // index build in progress
+  pointsById: Map<string, EventPoint>;
+  clusters: ClusterLayerData[]; // result of the last answered query
+  level: number; // integer zoom of `clusters`
+  queryBbox: Bbox | null; // padded area of the last query sent
+  queryLevel: number;
+  queryId: number; // answers to older queries are dropped
+  transition: ClusterTransition | null;
+  frame: number | null; // pending animation frame
+  spider: Spider | null; // spiderfied cluster, until the zoom level changes
+};
+
+const INDEX_PROPS = ["radius", "maxZoom", "minPoints", "aggregations"] as const;
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+const DEFAULT_LEG_COLOR: [number, number, number, number] = [75, 85, 99, 200];
+
+const defaultProps: DefaultProps<ClusterLayerProps> = {
+  transitionDuration: 300,
+  zoomOnClick: true,
+  spiderfy: true,
+};
+
+export class ClusterLayer extends CompositeLayer<ClusterLayerProps> {
+  static layerName = "ClusterLayer";
+  static defaultProps = defaultProps;
+
+  declare state: ClusterLayerState;
+
+  shouldUpdateState({ changeFlags }: UpdateParameters<this>) {
+    return changeFlags.somethingChanged;
+  }
+
+  initializeState() {
+    this.setState({
+      index: null,
+      build: null,
+      pointsById: new Map(),
+      clusters: [],
+      level: -1,
+      queryBbox: null,
+      queryLevel: -1,
+      queryId: 0,
+      transition: null,
+      frame: null,
+      spider: null,
+    });
+  }
+
+  updateState({ props, oldProps, changeFlags }: UpdateParameters<this>) {
+    const rebuild =
+      changeFlags.dataChanged ||
+      INDEX_PROPS.some((k) => !sameProp(props[k], oldProps[k]));
+    if (rebuild) this.buildIndex();
+    this.queryClusters().catch((err) =>
+      this.reportError(err, "Cluster query failed")
+    );
+  }
+
+  finalizeState(context: LayerContext) {
+    const { frame, build, index } = this.state;
+    if (frame != null) cancelAnimationFrame(frame);
+    build?.abort();
+    index?.dispose();
+    super.finalizeState(context);
+  }
+
+  // deck replaces the layer object on every render and hands the state over:
+  // async work finishes on the instance that is current by then (null once
+  // the layer is removed)
+  current(): ClusterLayer | null {
+    return (this.internalState?.layer as ClusterLayer | null) ?? null;
+  }
+
+  // Hands async failures to onError (falling back to the Deck's) through
+  // the current layer, whose props are up to date
+  reportError(err: unknown, message: string) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    (this.current() ?? this).raiseError(error, message);
+  }
+
+  // The previous index keeps answering until the new one is ready
+  buildIndex() {
+    this.state.build?.abort();
+    const build = new AbortController();
+    const { data, radius, maxZoom, minPoints, aggregations } = this.props;
+    this.setState({ build });
+    buildClusterIndexAsync(
+      data,
+      { radius, maxZoom, minPoints, aggregations },
+      { signal: build.signal }
+    )
+      .then((index) => {
+        const layer = this.current();
+        if (!layer) return index.dispose();
+        this.state.index?.dispose();
+        this.setState({
+          index,
+          build: null,
+          pointsById: new Map(data.map((p) => [p.id, p])),
+          queryBbox: null,
+          transition: null,
+          spider: null,
+        });
+        return layer.queryClusters(false);
+      })
+      .catch((err) => {
+        if (!build.signal.aborted)
+          this.reportError(err, "Cluster index build failed");
+      });
+  }
+
+  // Re-queries when the view leaves the padded query area or the zoom level
+  // changes; level changes start a transition from the previous clusters
+  async queryClusters(animate = true) {
+    const { index, queryBbox, queryLevel } = this.state;
+    if (!index) return;
+    const { viewport } = this.context;
+    const [w, s, e, n] = viewport.getBounds();
+    const level = Math.floor(viewport.zoom);
+    if (
+      queryBbox &&
+      level === queryLevel &&
+      containsBbox(queryBbox, [w, s, e, n])
+    )
+      return;
+
+    const padX = (e - w) / 2;
+    const padY = (n - s) / 2;
+    const bbox: Bbox = [w - padX, s - padY, e + padX, n + padY];
+    const queryId = this.state.queryId + 1;
+    this.setState({ queryBbox: bbox, queryLevel: level, queryId });
+    const clusters = await index.getClusters(bbox, level);
+
+    const { clusters: prev, level: prevLevel } = this.state;
+    const zoomIn = level > prevLevel;
+    const parents =
+      animate &&
+      level !== prevLevel &&
+      prev.length &&
+      (this.current()?.props.transitionDuration ?? 0) > 0
+        ? await index.matchClusters(
+            zoomIn ? prev : clusters,
+            zoomIn ? clusters : prev,
+            Math.max(level, prevLevel)
+          )
+        : null;
+
+    const layer = this.current();
+    if (!layer || queryId !== this.state.queryId) return;
+    this.setState({ clusters, level });
+    if (level !== prevLevel) this.setState({ spider: null });
+    layer.props.onClustersChange?.(clusters);
+    if (parents) layer.startTransition(prev, clusters, zoomIn, parents);
+    layer.setNeedsUpdate();
+  }
+
+  // Zooming in, new clusters fly out of their former parent; zooming out,
+  // the old ones fly into the cluster that absorbed them. `parents` holds the
+  // index of each moving cluster's parent (see matchClusterParents).
+  startTransition(
+    prev: ClusterLayerData[],
+    next: ClusterLayerData[],
+    zoomIn: boolean,
+    parents: number[]
+  ) {
+    const moving = zoomIn ? next : prev;
+    const parentItems = zoomIn ? prev : next;
+    const own = moving.map((d): [number, number] => [d.longitude, d.latitude]);
+    const other = moving.map((_, i): [number, number] => {
+      const p = parentItems[parents[i]];
+      return p ? [p.longitude, p.latitude] : own[i];
+    });
+    this.setState({
+      transition: {
+        items: moving,
+        from: zoomIn ? other : own,
+        to: zoomIn ? own : other,
+        start: performance.now(),
+      },
+    });
+    this.scheduleFrame();
+  }
+
+  scheduleFrame() {
+    if (this.state.frame != null) return;
+    const frame = requestAnimationFrame(() => {
+      this.setState({ frame: null });
+      const { transition } = this.state;
+      if (!transition) return;
+      const duration = this.props.transitionDuration ?? 0;
+      if (performance.now() - transition.start >= duration)
+        this.setState({ transition: null });
+      else this.scheduleFrame();
+      this.setNeedsUpdate();
+    });
+    this.setState({ frame });
+  }
+
+  // Index queries, answered by the worker ([] / null before the first build)
+  getLeaves(clusterId: number, limit = 50, offset = 0): Promise<EventPoint[]> {
+    const { index } = this.state;
+    return index
+      ? index.getLeaves(clusterId, limit, offset)
+      : Promise.resolve([]);
+  }
+
+  getClusterBbox(clusterId: number): Promise<Bbox | null> {
+    const { index } = this.state;
+    return index ? index.getClusterBbox(clusterId) : Promise.resolve(null);
+  }
+
+  getClusterExpansionZoom(clusterId: number): Promise<number> {
+    const { index } = this.state;
+    return index
+      ? index.getClusterExpansionZoom(clusterId)
+      : Promise.reject(new Error("Cluster index is not built"));
+  }
+
+  // Zooms in while that splits the cluster, then spiderfies (or collapses)
+  // it; other clicks go to the onClick prop
+  onClick(info: ClusterLayerPickingInfo, event: unknown) {
+    const d = info.object;
+    const { zoomOnClick, onZoomTo, spiderfy, maxZoom = 16 } = this.props;
+    if (d?.isCluster) {
+      // every queried cluster carries its expansion zoom
+      const zoom = d.expansionZoom ?? Infinity;
+      const splits = zoom <= maxZoom && this.context.viewport.zoom < maxZoom;
+      if (splits && zoomOnClick && onZoomTo) {
+        onZoomTo({ longitude: d.longitude, latitude: d.latitude, zoom });
+        return true;
+      }
+      if (!splits && spiderfy) {
+        this.toggleSpider(d).catch((err) =>
+          this.reportError(err, "Spiderfy failed")
+        );
+        return true;
+      }
+    }
+    return super.onClick(info, event);
+  }
+
+  async toggleSpider(d: ClusterLayerData) {
+    const clusterId = Number(d.id);
+    if (this.state.spider?.clusterId === clusterId) {
+      this.setState({ spider: null });
+      this.setNeedsUpdate();
+      return;
+    }
+    const { maxLeaves = 100 } =
+      typeof this.props.spiderfy === "object" ? this.props.spiderfy : {};
+    const leaves = await this.getLeaves(clusterId, maxLeaves);
+    const layer = this.current();
+    // skip if the cluster went away (zoom level change) meanwhile
+    if (!layer || !this.state.clusters.some((c) => c.id === d.id)) return;
+    this.setState({
+      spider: { clusterId, center: [d.longitude, d.latitude], leaves },
+    });
+    layer.setNeedsUpdate();
+  }
+
+  // Leaves at their screen offsets for the current zoom, and their legs
+  renderSpider() {
+    const { spider } = this.state;
+    if (!spider) return [];
+    const {
+      shape,
+      spacingPx,
+      leafRadiusPx = 6,
+      legColor = DEFAULT_LEG_COLOR,
+    } = typeof this.props.spiderfy === "object" ? this.props.spiderfy : {};
+    const { viewport } = this.context;
+    const [cx, cy] = viewport.project(spider.center);
+    const offsets = spiderfyOffsets(spider.leaves.length, shape, spacingPx);
+    const leaves: ClusterLayerData[] = spider.leaves.map((leaf, i) => {
+      const [lon, lat] = viewport.unproject([
+        cx + offsets[i][0],
+        cy + offsets[i][1],
+      ]);
+      return {
+        id: leaf.id,
+        longitude: lon,
+        latitude: lat,
+        pointCount: 1,
+        isCluster: false,
+      };
+    });
+    const { singlePointColor = [37, 99, 235, 200] } = this.props;
+    return [
+      new LineLayer<ClusterLayerData>(
+        this.getSubLayerProps({
+          id: "spider-legs",
+          data: leaves,
+          getSourcePosition: () => spider.center,
+          getTargetPosition: (d: ClusterLayerData) => [d.longitude, d.latitude],
+          getColor: legColor,
+          getWidth: 1.5,
+          widthUnits: "pixels",
+          pickable: false,
+        })
+      ),
+      new ScatterplotLayer<ClusterLayerData>(
+        this.getSubLayerProps({
+          id: "spider-leaves",
+          data: leaves,
+          getPosition: (d: ClusterLayerData) => [d.longitude, d.latitude],
+          getRadius: leafRadiusPx,
+          radiusUnits: "pixels",
+          stroked: true,
+          getFillColor: [
+            singlePointColor[0],
+            singlePointColor[1],
+            singlePointColor[2],
+            255,
+          ],
+          getLineColor: [255, 255, 255, 255],
+          lineWidthMinPixels: 1.5,
+        })
+      ),
+    ];
+  }
+
+  getPickingInfo({ info }: GetPickingInfoParams): ClusterLayerPickingInfo {
+    const object = info.object as ClusterLayerData | undefined;
+    const leaf =
+      object && !object.isCluster
+        ? this.state.pointsById.get(String(object.id))
+        : undefined;
+    return Object.assign(info, { leaf });
+  }
+
+  // Clusters as drawn this frame (interpolated while a transition runs)
+  visibleClusters(): ClusterLayerData[] {
+    const { transition, clusters } = this.state;
+    if (!transition) return clusters;
+    const duration = this.props.transitionDuration ?? 1;
+    const t = easeOutCubic(
+      Math.min(1, (performance.now() - transition.start) / duration)
+    );
+    return transition.items.map((d, i) => {
+      const [x0, y0] = transition.from[i];
+      const [x1, y1] = transition.to[i];
+      return {
+        ...d,
+        longitude: x0 + (x1 - x0) * t,
+        latitude: y0 + (y1 - y0) * t,
+      };
+    });
+  }
+
+  renderLayers() {
+    const {
+      singlePointRadius,
+      clusterRadiusPx,
+      clusterBorderPx,
+      clusterFillColor,
+      clusterBorderColor,
+      singlePointColor,
+      textColor,
+      getClusterFillColor,
+      getClusterBorderColor,
+      getClusterRadius,
+      pie,
+    } = this.props;
+    const clusters = buildClusterLayers({
+      data: this.visibleClusters(),
+      singlePointRadius,
+      clusterRadiusPx,
+      clusterBorderPx,
+      clusterFillColor,
+      clusterBorderColor,
+      singlePointColor,
+      textColor,
+      getClusterFillColor,
+      getClusterBorderColor,
+      getClusterRadius,
+      pie,
+      idPrefix: "clusters",
+    }).map((layer) =>
+      layer.clone(
+        this.getSubLayerProps({
+          id: layer.id,
+          pickable: this.props.pickable && layer.props.pickable,
+        })
+      )
+    );
+    return [...clusters, ...this.renderSpider()];
+  }
+}
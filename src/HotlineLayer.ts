@@ -0,0 +1,313 @@
+// Self-contained deck.gl layer for a single track: takes raw points, builds
+// the colored segments itself (only when the data or a build prop changes)
+// and reports hovers / clicks as the interpolated point on the track. A
+// prebuilt `result` (worker build, LOD level, time window) can be passed
+// instead of points. `opacity` fades the line as a whole (see
+// buildHotlineLayers) and `playbackTime` fades the part not yet driven.
+//
+//   new HotlineLayer({ id: "track", data: points, colors: "viridis",
+//     pickable: true, onHover: ({ object }) => setHover(object ?? null) })
+
+import { CompositeLayer } from "@deck.gl/core";
+import type {
+  CompositeLayerProps,
+  DefaultProps,
+  FilterContext,
+  GetPickingInfoParams,
+  PickingInfo,
+  UpdateParameters,
+} from "@deck.gl/core";
+import { PathLayer, ScatterplotLayer } from "@deck.gl/layers";
+import type {
+  BuildResult,
+  BuildSegmentsOptions,
+  GapRules,
+  Metric,
+  Bbox,
+  Point,
+  Segment,
+  SegmentMatch,
+} from "./hotline";
+import {
+  buildSegments,
+  filterSegmentsToBbox,
+  splitSegmentsAtTime,
+} from "./hotline";
+import type {
+  ColorInput,
+  ColorScale,
+  ColorScaleOptions,
+  PaletteName,
+  RGBA,
+} from "./colorScale";
+import { createColorScale, DEFAULT_PALETTE, toRgba } from "./colorScale";
+import type {
+  HotlineHighlightOptions,
+  HotlineOutlineOptions,
+  HotlineWidthOptions,
+} from "./hotlineLayers";
+import { buildHotlineLayers } from "./hotlineLayers";
+import { containsBbox, sameProp } from "./layerUtil";
+
+export interface HotlineLayerProps extends CompositeLayerProps {
+  data: Point[];
+  result?: BuildResult; // prebuilt segments; `data` and the build props are then ignored
+  metric?: Metric; // colored value (default "speed")
+  widthMetric?: Metric; // drives the width when `width` is an options object
+  colors?: ColorInput[] | PaletteName; // default palette
+  colorScale?: ColorScaleOptions; // stops, classes, mode, interpolation
+  minValue?: number; // color domain (default: range of the data)
+  maxValue?: number;
+  subdivisions?: number; // per point pair (default 6)
+  gaps?: GapRules;
+  interpolation?: BuildSegmentsOptions["interpolation"];
+  maxSegmentKm?: number;
+  width?: number | HotlineWidthOptions; // default 6
+  widthUnits?: "pixels" | "meters" | "common";
+  outline?: boolean | HotlineOutlineOptions;
+  selected?: boolean;
+  highlight?: HotlineHighlightOptions;
+  hoverTolerancePx?: number; // hit distance from the line center (default 12)
+  showNearestMarker?: boolean; // marker at the hovered point (default true)
+  markerColor?: ColorInput;
+  cull?: boolean; // only draw segments near the viewport (default false)
+  playbackTime?: number | null; // segments after it are drawn faded
+  aheadOpacity?: number; // of the part after playbackTime (default 0.3)
+}
+
+// info.object on hover / click: the closest point on the track, with value,
+// speed and timestamp interpolated along its segment
+export type HotlineLayerPickingInfo = PickingInfo<SegmentMatch>;
+
+// a type alias so it satisfies deck's indexed layer state
+type HotlineLayerState = {
+  result: BuildResult;
+  colorScale: ColorScale;
+  hovered: SegmentMatch | null;
+  drawn: Segment[]; // result.segments, or the culled part of them
+  cullBbox: Bbox | null; // padded area covered by `drawn`
+  driven: Segment[]; // drawn, split at playbackTime
+  ahead: Segment[];
+};
+
+// Props that require rebuilding the segments / recreating the color scale
+const BUILD_PROPS = [
+  "metric",
+  "widthMetric",
+  "minValue",
+  "maxValue",
+  "subdivisions",
+  "gaps",
+  "interpolation",
+  "maxSegmentKm",
+] as const;
+const SCALE_PROPS = ["colors", "colorScale"] as const;
+
+const DEFAULT_MARKER: RGBA = [255, 255, 255, 220];
+
+const defaultProps: DefaultProps<HotlineLayerProps> = {
+  subdivisions: 6,
+  width: 6,
+  widthUnits: "pixels",
+  outline: false,
+  selected: false,
+  hoverTolerancePx: 12,
+  showNearestMarker: true,
+  cull: false,
+  playbackTime: null,
+  aheadOpacity: 0.3,
+};
+
+export class HotlineLayer extends CompositeLayer<HotlineLayerProps> {
+  static layerName = "HotlineLayer";
+  static defaultProps = defaultProps;
+
+  declare state: HotlineLayerState;
+
+  shouldUpdateState({ changeFlags }: UpdateParameters<this>) {
+    return changeFlags.somethingChanged;
+  }
+
+  updateState({ props, oldProps, changeFlags }: UpdateParameters<this>) {
+    const rebuild = props.result
+      ? props.result !== this.state.result
+      : !this.state.result ||
+        oldProps.result !== undefined ||
+        Boolean(changeFlags.dataChanged) ||
+        BUILD_PROPS.some((k) => !sameProp(props[k], oldProps[k]));
+    if (rebuild && props.result) {
+      this.setState({ result: props.result, hovered: null });
+    } else if (rebuild) {
+      const result = buildSegments(props.data, {
+        subdivisions: props.subdivisions ?? 6,
+        metric: props.metric,
+        widthMetric: props.widthMetric,
+        minValueOverride: props.minValue,
+        maxValueOverride: props.maxValue,
+        gaps: props.gaps,
+        interpolation: props.interpolation,
+        maxSegmentKm: props.maxSegmentKm,
+      });
+      this.setState({ result, hovered: null });
+    }
+    if (rebuild || SCALE_PROPS.some((k) => !sameProp(props[k], oldProps[k]))) {
+      const { minValue, maxValue } = this.state.result;
+      this.setState({
+        colorScale: createColorScale(minValue, maxValue, {
+          ...props.colorScale,
+          colors: props.colors ?? DEFAULT_PALETTE,
+        }),
+      });
+    }
+    const redraw = this.updateDrawn(rebuild || props.cull !== oldProps.cull);
+    if (redraw || props.playbackTime !== oldProps.playbackTime) {
+      const { drawn } = this.state;
+      const { driven, remaining } =
+        props.playbackTime != null
+          ? splitSegmentsAtTime(drawn, props.playbackTime, props.interpolation)
+          : { driven: drawn, remaining: [] };
+      this.setState({ driven, ahead: remaining });
+    }
+  }
+
+  // With `cull`, keeps the segments around the viewport (padded, so panning
+  // rarely needs a new filter); returns true when `drawn` changed
+  updateDrawn(force: boolean): boolean {
+    const { result, cullBbox } = this.state;
+    if (!this.props.cull) {
+      if (!force) return false;
+      this.setState({ drawn: result.segments, cullBbox: null });
+      return true;
+    }
+    const [w, s, e, n] = this.context.viewport.getBounds();
+    if (!force && cullBbox && containsBbox(cullBbox, [w, s, e, n]))
+      return false;
+    const padX = (e - w) / 4;
+    const padY = (n - s) / 4;
+    const bbox: Bbox = [w - padX, s - padY, e + padX, n + padY];
+    this.setState({
+      drawn: filterSegmentsToBbox(result.segments, bbox),
+      cullBbox: bbox,
+    });
+    return true;
+  }
+
+  // Segments and color domain currently drawn
+  get result(): BuildResult {
+    return this.state.result;
+  }
+
+  getPickingInfo({
+    info,
+    mode,
+  }: GetPickingInfoParams): HotlineLayerPickingInfo {
+    // the hit layer limits the distance on screen; snap to the track here
+    const match =
+      info.picked && info.coordinate
+        ? this.state.result.index.nearest(
+            info.coordinate[0],
+            info.coordinate[1]
+          )
+        : null;
+    if (mode === "hover" && (match || this.state.hovered)) {
+      // new marker position: sub layers are re-rendered on the next update
+      this.setState({ hovered: match });
+      this.setNeedsUpdate();
+    }
+    info.object = match ?? undefined;
+    info.index = match ? match.segmentIndex : -1;
+    return info as HotlineLayerPickingInfo;
+  }
+
+  // The wide hit layer is only drawn into the picking buffer
+  filterSubLayer({ layer, isPicking }: FilterContext) {
+    return isPicking || layer.id !== `${this.props.id}-hit`;
+  }
+
+  renderLayers() {
+    const { colorScale, hovered, drawn, driven, ahead } = this.state;
+    const {
+      width,
+      widthUnits,
+      outline,
+      selected,
+      highlight,
+      opacity,
+      aheadOpacity = 0.3,
+      hoverTolerancePx = 12,
+      showNearestMarker,
+      markerColor,
+    } = this.props;
+
+    // the line fades through buildHotlineLayers, not through the sub layers'
+    // own opacity, so overlapping segment caps don't stack
+    const parts = [
+      ...buildHotlineLayers({
+        data: driven,
+        colorScale,
+        width,
+        widthUnits,
+        outline,
+        selected,
+        highlight,
+        opacity,
+        idPrefix: "hotline",
+      }),
+      // not yet driven part during playback: faded, no casing
+      ...(ahead.length
+        ? buildHotlineLayers({
+            data: ahead,
+            colorScale,
+            width,
+            widthUnits,
+            opacity: opacity * aheadOpacity,
+            idPrefix: "hotline-ahead",
+          })
+        : []),
+    ];
+    const lines = parts.map((layer) =>
+      layer.clone(
+        this.getSubLayerProps({
+          id: layer.id,
+          updateTriggers: layer.props.updateTriggers,
+          pickable: false,
+          opacity: 1,
+        })
+      )
+    );
+
+    const hit = new PathLayer<Segment>(
+      this.getSubLayerProps({
+        id: "hit",
+        data: drawn,
+        getPath: (d: Segment) => d.path,
+        getColor: [0, 0, 0, 0],
+        getWidth: 2 * hoverTolerancePx,
+        widthUnits: "pixels",
+        capRounded: true,
+        jointRounded: true,
+      })
+    );
+
+    const marker =
+      showNearestMarker && hovered
+        ? new ScatterplotLayer<SegmentMatch>(
+            this.getSubLayerProps({
+              id: "nearest-marker",
+              data: [hovered],
+              getPosition: (d: SegmentMatch) => [d.lon, d.lat],
+              getRadius: 6,
+              radiusUnits: "pixels",
+              stroked: true,
+              filled: true,
+              getFillColor: markerColor ? toRgba(markerColor) : DEFAULT_MARKER,
+              getLineColor: [0, 0, 0, 230],
+              lineWidthMinPixels: 2,
+              pickable: false,
+            })
+          )
+        : null;
+
+    return [...lines, hit, marker];
+  }
+}
@@ -0,0 +1,117 @@
+import type { ReactNode } from "react";
+import { buildGradientCss } from "./hotline";
+import type { ColorInput, ColorScaleOptions, PaletteName } from "./colorScale";
+import { colorScaleTicks } from "./colorScale";
+
+// Color legend for a hotline scale: gradient (or stepped) bar with labeled
+// ticks at the scale's stop / class values, a unit and an optional unit
+// switcher. Values are in the data's units; `formatValue` converts labels.
+
+export interface LegendUnitOption {
+  value: string;
+  label: string;
+}
+
+export interface LegendProps {
+  minValue: number;
+  maxValue: number;
+  colors: ColorInput[] | PaletteName;
+  colorScale?: ColorScaleOptions; // stops, classes, mode (as used on the map)
+  title?: ReactNode; // e.g. a metric picker
+  unit?: string; // shown after the title
+  formatValue?: (value: number) => string; // default: rounded value
+  units?: LegendUnitOption[]; // renders a unit switcher when given
+  selectedUnit?: string;
+  onUnitChange?: (unit: string) => void;
+  width?: number; // bar width, px (default 200)
+  maxTicks?: number; // labels are thinned out beyond this (default 6)
+}
+
+const defaultFormat = (v: number) =>
+  Math.abs(v) >= 100 || Number.isInteger(v) ? v.toFixed(0) : v.toFixed(1);
+
+// Keeps the ends and every k-th tick in between
+function thinTicks(ticks: number[], maxTicks: number) {
+  if (ticks.length <= maxTicks) return ticks;
+  const step = Math.ceil((ticks.length - 1) / (maxTicks - 1));
+  return ticks.filter((_, i) => i % step === 0 || i === ticks.length - 1);
+}
+
+export function Legend({
+  minValue,
+  maxValue,
+  colors,
+  colorScale = {},
+  title,
+  unit,
+  formatValue = defaultFormat,
+  units,
+  selectedUnit,
+  onUnitChange,
+  width = 200,
+  maxTicks = 6,
+}: LegendProps) {
+  const span = maxValue - minValue || 1;
+  const ticks = thinTicks(
+    colorScaleTicks(minValue, maxValue, colorScale),
+    Math.max(2, maxTicks)
+  );
+
+  return (
+    <div className="select-none">
+      {(title || unit || units) && (
+        <div className="font-medium mb-2 flex items-center gap-2">
+          {title}
+          {units && onUnitChange ? (
+            <select
+              className="bg-transparent text-xs text-gray-500"
+              value={selectedUnit}
+              onChange={(e) => onUnitChange(e.target.value)}
+            >
+              {units.map((u) => (
+                <option key={u.value} value={u.value}>
+                  {u.label}
+                </option>
+              ))}
+            </select>
+          ) : (
+            unit && <span className="text-xs text-gray-500">{unit}</span>
+          )}
+        </div>
+      )}
+      <div
+        className="h-2 rounded-full"
+        style={{
+          width,
+          background: buildGradientCss(colors, 90, {
+            ...colorScale,
+            minValue,
+            maxValue,
+          }),
+        }}
+      />
+      <div className="relative h-5 text-[11px] text-gray-600" style={{ width }}>
+        {ticks.map((v, i) => {
+          const pct = ((v - minValue) / span) * 100;
+          // end labels stay inside the bar
+          const last = i === ticks.length - 1;
+          const shift = i === 0 ? "0%" : last ? "-100%" : "-50%";
+          const align =
+            i === 0 ? "items-start" : last ? "items-end" : "items-center";
+          return (
+            <div
+              key={v}
+              className={`absolute top-0 flex flex-col ${align}`}
+              style={{ left: `${pct}%`, transform: `translateX(${shift})` }}
+            >
+              <div className="w-px h-1 bg-gray-500" />
+              <span className="tabular-nums leading-tight">
+                {formatValue(v)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
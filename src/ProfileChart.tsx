@@ -0,0 +1,214 @@
+import { useMemo, useRef, useState, type MouseEvent } from "react";
+import type { Segment } from "./hotline";
+import type { ColorInput, ColorScaleOptions, PaletteName } from "./colorScale";
+import { buildGradientCss, haversineKm } from "./hotline";
+
+// Track metric profile against cumulative distance or time. The area is
+// filled with the same gradient as the legend (value axis bottom -> top),
+// hovering reports the time under the cursor and dragging selects a range.
+
+export interface ProfileChartProps {
+  segments: Segment[]; // in time order
+  minValue: number;
+  maxValue: number;
+  colors: ColorInput[] | PaletteName;
+  colorScale?: ColorScaleOptions; // same scale as the map for the fill
+  xAxis?: "distance" | "time";
+  cursorTime?: number | null; // crosshair position (e.g. from map hover)
+  onHoverTime?: (time: number | null) => void;
+  onSelectRange?: (startTime: number, endTime: number) => void;
+  width?: number; // px
+  height?: number; // px
+  label?: string;
+  unit?: string;
+  formatValue?: (value: number) => string; // value labels (e.g. unit conversion)
+}
+
+interface Profile {
+  xs: number[]; // km or ms, ascending
+  times: number[];
+  values: number[];
+}
+
+const MAX_SAMPLES = 600;
+
+function buildProfile(segments: Segment[], xAxis: "distance" | "time") {
+  const xs: number[] = [];
+  const times: number[] = [];
+  const values: number[] = [];
+  let dist = 0;
+  for (const s of segments) {
+    xs.push(xAxis === "time" ? s.time0 : dist);
+    times.push(s.time0);
+    values.push(s.value0);
+    dist += haversineKm(s.path[0], s.path[1]);
+  }
+  const last = segments[segments.length - 1];
+  if (last) {
+    xs.push(xAxis === "time" ? last.time1 : dist);
+    times.push(last.time1);
+    values.push(last.value1);
+  }
+  return { xs, times, values };
+}
+
+// Index i with arr[i] <= v < arr[i + 1] (clamped)
+function bisect(arr: number[], v: number) {
+  let lo = 0;
+  let hi = arr.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (arr[mid] <= v) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function interp(from: number[], to: number[], v: number) {
+  const i = bisect(from, v);
+  const span = from[i + 1] - from[i];
+  const t = span > 0 ? (v - from[i]) / span : 0;
+  return to[i] + ((to[i + 1] ?? to[i]) - to[i]) * Math.max(0, Math.min(1, t));
+}
+
+export function ProfileChart({
+  segments,
+  minValue,
+  maxValue,
+  colors,
+  colorScale,
+  xAxis = "distance",
+  cursorTime,
+  onHoverTime,
+  onSelectRange,
+  width = 360,
+  height = 120,
+  label,
+  unit,
+  formatValue = (v) => v.toFixed(0),
+}: ProfileChartProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [drag, setDrag] = useState<{ from: number; to: number } | null>(null);
+
+  const profile: Profile = useMemo(
+    () => buildProfile(segments, xAxis),
+    [segments, xAxis]
+  );
+  const { xs, times, values } = profile;
+  const x0 = xs[0] ?? 0;
+  const x1 = xs[xs.length - 1] ?? 1;
+  const xSpan = x1 - x0 || 1;
+  const vSpan = maxValue - minValue || 1;
+
+  // Area outline in percent, downsampled for the clip-path
+  const clipPath = useMemo(() => {
+    if (xs.length < 2) return "polygon(0 100%, 100% 100%)";
+    const step = Math.max(1, Math.floor(xs.length / MAX_SAMPLES));
+    const pts: string[] = ["0% 100%"];
+    for (let i = 0; i < xs.length; i += step) {
+      const px = ((xs[i] - x0) / xSpan) * 100;
+      const u = Math.max(0, Math.min(1, (values[i] - minValue) / vSpan));
+      const py = Number.isFinite(u) ? (1 - u) * 100 : 100;
+      pts.push(`${px.toFixed(2)}% ${py.toFixed(2)}%`);
+    }
+    const lastU = (values[values.length - 1] - minValue) / vSpan;
+    pts.push(
+      `100% ${((1 - Math.max(0, Math.min(1, lastU))) * 100).toFixed(2)}%`
+    );
+    pts.push("100% 100%");
+    return `polygon(${pts.join(", ")})`;
+  }, [xs, values, x0, xSpan, minValue, vSpan]);
+
+  const fracToTime = (f: number) => interp(xs, times, x0 + f * xSpan);
+  const timeToFrac = (t: number) => (interp(times, xs, t) - x0) / xSpan;
+  const eventFrac = (e: MouseEvent) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || !rect.width) return 0;
+    return Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+  };
+
+  const cursorFrac =
+    cursorTime != null && times.length > 1 && Number.isFinite(cursorTime)
+      ? timeToFrac(cursorTime)
+      : null;
+
+  if (xs.length < 2) return null;
+
+  const formatX = (v: number) =>
+    xAxis === "time"
+      ? new Date(v).toLocaleTimeString()
+      : `${(v - x0).toFixed(0)} km`;
+
+  return (
+    <div className="select-none" style={{ width }}>
+      {label && (
+        <div className="flex justify-between text-[11px] text-gray-600 mb-1">
+          <span className="font-medium">
+            {label}
+            {unit ? `, ${unit}` : ""}
+          </span>
+          <span>
+            {formatValue(minValue)}–{formatValue(maxValue)}
+          </span>
+        </div>
+      )}
+      <div
+        ref={containerRef}
+        className="relative bg-gray-100 rounded cursor-crosshair"
+        style={{ height }}
+        onMouseDown={(e) => {
+          const f = eventFrac(e);
+          setDrag({ from: f, to: f });
+        }}
+        onMouseMove={(e) => {
+          const f = eventFrac(e);
+          if (drag) setDrag({ ...drag, to: f });
+          onHoverTime?.(fracToTime(f));
+        }}
+        onMouseUp={() => {
+          if (drag && Math.abs(drag.to - drag.from) * width > 3) {
+            const a = fracToTime(Math.min(drag.from, drag.to));
+            const b = fracToTime(Math.max(drag.from, drag.to));
+            onSelectRange?.(a, b);
+          }
+          setDrag(null);
+        }}
+        onMouseLeave={() => {
+          setDrag(null);
+          onHoverTime?.(null);
+        }}
+      >
+        <div
+          className="absolute inset-0"
+          style={{
+            background: buildGradientCss(
+              colors,
+              0,
+              colorScale && { ...colorScale, minValue, maxValue }
+            ),
+            clipPath,
+          }}
+        />
+        {drag && (
+          <div
+            className="absolute inset-y-0 bg-blue-500/20 border-x border-blue-500"
+            style={{
+              left: `${Math.min(drag.from, drag.to) * 100}%`,
+              width: `${Math.abs(drag.to - drag.from) * 100}%`,
+            }}
+          />
+        )}
+        {cursorFrac != null && (
+          <div
+            className="absolute inset-y-0 w-px bg-gray-900 pointer-events-none"
+            style={{ left: `${cursorFrac * 100}%` }}
+          />
+        )}
+      </div>
+      <div className="flex justify-between text-[10px] text-gray-500 mt-0.5">
+        <span>{formatX(x0)}</span>
+        <span>{formatX(x1)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+// deck.gl layer factory for composeClusterRenderable output. Kept apart from
+// clusterUtil so the indexing code has no deck.gl dependency (worker-safe).
+
+import { IconLayer, ScatterplotLayer, TextLayer } from "@deck.gl/layers";
+import type { ClusterLayerData } from "./clusterUtil";
+import type { ColorInput } from "./colorScale";
+import { rgbaToCss, toRgba } from "./colorScale";
+
+type Color = [number, number, number, number];
+
+// Donut / pie of a "count" aggregation drawn around each cluster
+export interface ClusterPieOptions {
+  aggregation: string; // name of a "count" aggregation
+  colors: Record<string, ColorInput>; // per category value
+  otherColor?: ColorInput; // values without a color (default gray)
+  innerRadius?: number; // hole as a fraction of the radius, 0 = pie (default 0.6)
+}
+
+export interface BuildClusterLayersParams {
+  data: ClusterLayerData[];
+  singlePointRadius?: number; // px
+  clusterRadiusPx?: number; // px (visual only)
+  clusterBorderPx?: number; // stroke width
+  clusterFillColor?: [number, number, number, number];
+  clusterBorderColor?: [number, number, number, number];
+  singlePointColor?: [number, number, number, number];
+  textColor?: [number, number, number, number];
+  // data-driven cluster style, e.g. from d.aggregates / d.categories
+  getClusterFillColor?: (d: ClusterLayerData) => Color;
+  getClusterBorderColor?: (d: ClusterLayerData) => Color;
+  getClusterRadius?: (d: ClusterLayerData) => number; // px
+  pie?: ClusterPieOptions;
+  idPrefix?: string;
+}
+
+const PIE_ICON_SIZE = 64;
+const PIE_STEPS = 64; // slice sizes are rounded to 1/64 so icons are shared
+
+// SVG donut (or pie) as one stroked circle per slice
+function pieIcon(slices: [string, number][], innerRadius: number) {
+  const c = PIE_ICON_SIZE / 2;
+  const r = (c * (1 + innerRadius)) / 2;
+  const circumference = 2 * Math.PI * r;
+  let offset = 0;
+  const arcs = slices.map(([color, fraction]) => {
+    const len = fraction * circumference;
+    const arc =
+      `<circle cx="${c}" cy="${c}" r="${r}" fill="none" stroke="${color}" ` +
+      `stroke-width="${c - c * innerRadius}" ` +
+      `stroke-dasharray="${len} ${circumference}" ` +
+      `stroke-dashoffset="${-offset}" transform="rotate(-90 ${c} ${c})"/>`;
+    offset += len;
+    return arc;
+  });
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${PIE_ICON_SIZE}" ` +
+    `height="${PIE_ICON_SIZE}">${arcs.join("")}</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+function pieSlices(
+  counts: Record<string, number>,
+  colors: Record<string, string>,
+  other: string
+): [string, number][] {
+  const total = Object.values(counts).reduce((a, n) => a + n, 0) || 1;
+  const byColor: Record<string, number> = {};
+  for (const [k, n] of Object.entries(counts)) {
+    const color = colors[k] ?? other;
+    byColor[color] = (byColor[color] ?? 0) + n;
+  }
+  return Object.entries(byColor)
+    .map(([color, n]): [string, number] => [
+      color,
+      Math.round((n / total) * PIE_STEPS) / PIE_STEPS,
+    ])
+    .filter(([, f]) => f > 0);
+}
+
+export function buildClusterLayers({
+  data,
+  singlePointRadius = 4,
+  clusterRadiusPx = 20,
+  clusterBorderPx = 6,
+  clusterFillColor = [255, 255, 255, 255],
+  clusterBorderColor = [37, 99, 235, 255], // blue-500
+  singlePointColor = [37, 99, 235, 200],
+  textColor = [55, 65, 81, 255], // gray-700
+  getClusterFillColor,
+  getClusterBorderColor,
+  getClusterRadius,
+  pie,
+  idPrefix = "clusters",
+}: BuildClusterLayersParams) {
+  const clusters = data.filter((d) => d.isCluster);
+  const singles = data.filter((d) => !d.isCluster);
+  const radiusOf = (d: ClusterLayerData) =>
+    getClusterRadius ? getClusterRadius(d) : clusterRadiusPx;
+  const innerRadius = pie
+    ? Math.max(0, Math.min(1, pie.innerRadius ?? 0.6))
+    : 0;
+  const clusterCircle = new ScatterplotLayer({
+    id: `${idPrefix}-circles`,
+    data: clusters,
+    getPosition: (d: ClusterLayerData) => [d.longitude, d.latitude],
+    // with a donut the ring replaces the border
+    getRadius: pie
+      ? (d: ClusterLayerData) => (radiusOf(d) + clusterBorderPx) * innerRadius
+      : radiusOf,
+    radiusUnits: "pixels",
+    filled: true,
+    stroked: !pie,
+    getFillColor: getClusterFillColor ?? clusterFillColor,
+    getLineColor: getClusterBorderColor ?? clusterBorderColor,
+    lineWidthUnits: "pixels",
+    lineWidthMinPixels: clusterBorderPx,
+    updateTriggers: {
+      getRadius: [getClusterRadius, clusterRadiusPx, innerRadius],
+      getFillColor: getClusterFillColor,
+      getLineColor: getClusterBorderColor,
+    },
+    pickable: true,
+  });
+  let clusterPie = null;
+  if (pie) {
+    const colors: Record<string, string> = {};
+    for (const [k, c] of Object.entries(pie.colors))
+      colors[k] = rgbaToCss(toRgba(c));
+    const other = rgbaToCss(toRgba(pie.otherColor ?? "#9ca3af"));
+    clusterPie = new IconLayer({
+      id: `${idPrefix}-pie`,
+      data: clusters,
+      getPosition: (d: ClusterLayerData) => [d.longitude, d.latitude],
+      getIcon: (d: ClusterLayerData) => {
+        const slices = pieSlices(
+          d.categories?.[pie.aggregation] ?? {},
+          colors,
+          other
+        );
+        const id = `${innerRadius}:${slices.flat().join(",")}`;
+        return {
+          id,
+          url: pieIcon(slices, innerRadius),
+          width: PIE_ICON_SIZE,
+          height: PIE_ICON_SIZE,
+        };
+      },
+      getSize: (d: ClusterLayerData) => 2 * (radiusOf(d) + clusterBorderPx),
+      sizeUnits: "pixels",
+      updateTriggers: {
+        getIcon: [pie.aggregation, JSON.stringify(colors), other, innerRadius],
+        getSize: [getClusterRadius, clusterRadiusPx, clusterBorderPx],
+      },
+      pickable: true,
+    });
+  }
+  const clusterText = new TextLayer({
+    id: `${idPrefix}-labels`,
+    data: clusters,
+    getPosition: (d: ClusterLayerData) => [d.longitude, d.latitude],
+    getText: (d: ClusterLayerData) => `${d.pointCount}`,
+    getSize: 14,
+    sizeUnits: "pixels",
+    getColor: textColor,
+    background: false,
+    getTextAnchor: () => "middle",
+    getAlignmentBaseline: () => "center",
+    pickable: false,
+  });
+  const singlePoints = new ScatterplotLayer({
+    id: `${idPrefix}-singles`,
+    data: singles,
+    getPosition: (d: ClusterLayerData) => [d.longitude, d.latitude],
+    getRadius: singlePointRadius,
+    radiusUnits: "pixels",
+    filled: true,
+    stroked: false,
+    getFillColor: singlePointColor,
+    pickable: true,
+  });
+  return clusterPie
+    ? [singlePoints, clusterPie, clusterCircle, clusterText]
+    : [singlePoints, clusterCircle, clusterText];
+}
@@ -3,6 +3,8 @@ import type {
   ClusterFeature as SCClusterFeature,
   PointFeature,
 } from "supercluster";
+import type { Bbox } from "./hotline";
+import { boundsOfCoordinates, wrapLongitude } from "./hotline";
 
 export interface EventPoint {
   id: string;
@@ -10,8 +12,25 @@ export interface EventPoint {
   lat: number;
   value?: number;
   name?: string; // optional display name
+  category?: string; // e.g. a severity level, for "count" aggregations
+  fields?: Record<string, number | string>; // extra attributes to aggregate
 }
 
+// Per-cluster statistics over a field of the member events
+export type AggregationType = "sum" | "min" | "max" | "mean" | "count";
+
+export interface ClusterAggregation {
+  type: AggregationType; // "count" tallies the values of a category field
+  field: string; // EventPoint key ("value", "category") or a key of `fields`
+}
+
+// Output name -> aggregation
+export type ClusterAggregations = Record<string, ClusterAggregation>;
+
+export const DEFAULT_AGGREGATIONS: ClusterAggregations = {
+  value: { type: "sum", field: "value" },
+};
+
 export interface ClusterFeature {
   id: string | number;
   longitude: number;
@@ -19,142 +38,200 @@ export interface ClusterFeature {
   pointCount: number;
   expansionZoom?: number;
   leaves?: EventPoint[];
+  aggregates?: Record<string, number>; // sum / min / max / mean (NaN without data)
+  categories?: Record<string, Record<string, number>>; // "count": value -> events
 }
 
 export interface ClusterLayerData extends ClusterFeature {
   isCluster: boolean;
 }
 
+type LeafProps = Omit<EventPoint, "id" | "lon" | "lat">;
+// Running state of one aggregation; mean keeps [sum, count]
+type Accumulator = number | [number, number] | Record<string, number>;
+type ClusterProps = { acc: Record<string, Accumulator> };
+type ClusterIndex = Supercluster<LeafProps, ClusterProps>;
+
+// Aggregations each index was built with (read back when querying)
+const indexAggregations = new WeakMap<ClusterIndex, ClusterAggregations>();
+
+function fieldValue(p: LeafProps, field: string): unknown {
+  return field in p ? p[field as keyof LeafProps] : p.fields?.[field];
+}
+
+function initAccumulators(
+  aggregations: ClusterAggregations,
+  p: LeafProps
+): Record<string, Accumulator> {
+  const acc: Record<string, Accumulator> = {};
+  for (const [name, { type, field }] of Object.entries(aggregations)) {
+    const raw = fieldValue(p, field);
+    const v = Number(raw ?? NaN);
+    const ok = Number.isFinite(v);
+    if (type === "count") acc[name] = raw == null ? {} : { [String(raw)]: 1 };
+    else if (type === "mean") acc[name] = ok ? [v, 1] : [0, 0];
+    else if (type === "min") acc[name] = ok ? v : Infinity;
+    else if (type === "max") acc[name] = ok ? v : -Infinity;
+    else acc[name] = ok ? v : 0;
+  }
+  return acc;
+}
+
+// Always returns new objects: supercluster only shallow-copies cluster props
+function mergeAccumulators(
+  aggregations: ClusterAggregations,
+  a: Record<string, Accumulator>,
+  b: Record<string, Accumulator>
+): Record<string, Accumulator> {
+  const acc: Record<string, Accumulator> = {};
+  for (const [name, { type }] of Object.entries(aggregations)) {
+    const x = a[name];
+    const y = b[name];
+    if (type === "count") {
+      const counts = { ...(x as Record<string, number>) };
+      for (const [k, n] of Object.entries(y as Record<string, number>))
+        counts[k] = (counts[k] ?? 0) + n;
+      acc[name] = counts;
+    } else if (type === "mean") {
+      const [s1, n1] = x as [number, number];
+      const [s2, n2] = y as [number, number];
+      acc[name] = [s1 + s2, n1 + n2];
+    } else if (type === "min") acc[name] = Math.min(x as number, y as number);
+    else if (type === "max") acc[name] = Math.max(x as number, y as number);
+    else acc[name] = (x as number) + (y as number);
+  }
+  return acc;
+}
+
+function summarize(
+  aggregations: ClusterAggregations,
+  acc: Record<string, Accumulator>
+): Pick<ClusterFeature, "aggregates" | "categories"> {
+  const aggregates: Record<string, number> = {};
+  const categories: Record<string, Record<string, number>> = {};
+  for (const [name, { type }] of Object.entries(aggregations)) {
+    const v = acc[name];
+    if (type === "count") categories[name] = v as Record<string, number>;
+    else if (type === "mean") {
+      const [sum, n] = v as [number, number];
+      aggregates[name] = n ? sum / n : NaN;
+    } else aggregates[name] = Number.isFinite(v) ? (v as number) : NaN;
+  }
+  return { aggregates, categories };
+}
+
+type IndexFeature = SCClusterFeature<ClusterProps> | PointFeature<LeafProps>;
+
+// Aggregates of a cluster, or of the lone event of a point feature
+function featureSummary(index: ClusterIndex, f: IndexFeature) {
+  const aggregations = indexAggregations.get(index) ?? DEFAULT_AGGREGATIONS;
+  const acc =
+    "cluster" in f.properties && f.properties.cluster
+      ? (f as SCClusterFeature<ClusterProps>).properties.acc
+      : initAccumulators(aggregations, f.properties as LeafProps);
+  return summarize(aggregations, acc);
+}
+
+// Bbox with longitudes in [-180, 180] (west > east when it crosses the
+// antimeridian) and clamped latitudes, as supercluster expects. Map bounds
+// past +-180 (world copies) are folded back; spans of 360+ become the world.
+export function normalizeBbox(
+  bbox: [number, number, number, number]
+): [number, number, number, number] {
+  const [w, s, e, n] = bbox;
+  const south = Math.max(-90, Math.min(90, s));
+  const north = Math.max(-90, Math.min(90, n));
+  if (e - w >= 360) return [-180, south, 180, north];
+  const west = wrapLongitude(w);
+  let east = wrapLongitude(e);
+  if (east === -180 && e > w) east = 180;
+  return [west, south, east, north];
+}
+
+// Moves a cluster longitude into the world copy of the requested bbox, so
+// results for unwrapped map bounds (e.g. 170..200) render on screen
+function toBboxLongitude(lon: number, bbox: [number, number, number, number]) {
+  const [w, , e] = bbox;
+  if (w >= -180 && e <= 180) return lon;
+  return w + ((((lon - w) % 360) + 360) % 360);
+}
+
 // Convert clusters + single points to unified array for deck.gl
 export function composeClusterRenderable(
   index: ReturnType<typeof buildClusterIndex>,
   bbox: [number, number, number, number],
   zoom: number
 ): ClusterLayerData[] {
-  type CP = { value: number };
-  const items = index.getClusters(bbox, Math.floor(zoom)) as Array<
-    SCClusterFeature<CP> | PointFeature<CP>
-  >;
+  const items = index.getClusters(
+    normalizeBbox(bbox),
+    Math.floor(zoom)
+  ) as IndexFeature[];
   return items.map((f) => {
-    const [lon, lat] = f.geometry.coordinates as [number, number];
+    const [rawLon, lat] = f.geometry.coordinates as [number, number];
+    const lon = toBboxLongitude(rawLon, bbox);
     const isCluster = "cluster" in f.properties && !!f.properties.cluster;
-    const pointCount = isCluster
-      ? (f as SCClusterFeature<CP>).properties.point_count || 0
-      : 1;
-    const id =
-      ("id" in f && f.id) ||
-      (isCluster
-        ? (f as SCClusterFeature<CP>).properties.cluster_id
-        : undefined) ||
-      `${lon}_${lat}`;
+    const cluster = isCluster
+      ? (f as SCClusterFeature<ClusterProps>).properties
+      : null;
+    const pointCount = cluster ? cluster.point_count || 0 : 1;
+    const id = ("id" in f && f.id) || cluster?.cluster_id || `${rawLon}_${lat}`;
     return {
-      id: id!,
+      id,
       longitude: lon,
       latitude: lat,
       pointCount,
       isCluster,
+      expansionZoom: cluster
+        ? index.getClusterExpansionZoom(cluster.cluster_id)
+        : undefined,
+      ...featureSummary(index, f),
     };
   });
 }
 
-// ---- deck.gl layer factory (kept here for reuse) ----
-import { ScatterplotLayer, TextLayer } from "@deck.gl/layers";
-// We type return as any[] to avoid pulling full Layer typings into this util.
-export interface BuildClusterLayersParams {
-  data: ClusterLayerData[];
-  singlePointRadius?: number; // px
-  clusterRadiusPx?: number; // px (visual only)
-  clusterBorderPx?: number; // stroke width
-  clusterFillColor?: [number, number, number, number];
-  clusterBorderColor?: [number, number, number, number];
-  singlePointColor?: [number, number, number, number];
-  textColor?: [number, number, number, number];
-  idPrefix?: string;
-}
-
-export function buildClusterLayers({
-  data,
-  singlePointRadius = 4,
-  clusterRadiusPx = 20,
-  clusterBorderPx = 6,
-  clusterFillColor = [255, 255, 255, 255],
-  clusterBorderColor = [37, 99, 235, 255], // blue-500
-  singlePointColor = [37, 99, 235, 200],
-  textColor = [55, 65, 81, 255], // gray-700
-  idPrefix = "clusters",
-}: BuildClusterLayersParams) {
-  const clusters = data.filter((d) => d.isCluster);
-  const singles = data.filter((d) => !d.isCluster);
-  const clusterCircle = new ScatterplotLayer({
-    id: `${idPrefix}-circles`,
-    data: clusters,
-    getPosition: (d: ClusterLayerData) => [d.longitude, d.latitude],
-    getRadius: clusterRadiusPx,
-    radiusUnits: "pixels",
-    filled: true,
-    stroked: true,
-    getFillColor: clusterFillColor,
-    getLineColor: clusterBorderColor,
-    lineWidthUnits: "pixels",
-    lineWidthMinPixels: clusterBorderPx,
-    pickable: true,
-  });
-  const clusterText = new TextLayer({
-    id: `${idPrefix}-labels`,
-    data: clusters,
-    getPosition: (d: ClusterLayerData) => [d.longitude, d.latitude],
-    getText: (d: ClusterLayerData) => `${d.pointCount}`,
-    getSize: 14,
-    sizeUnits: "pixels",
-    getColor: textColor,
-    background: false,
-    getTextAnchor: () => "middle",
-    getAlignmentBaseline: () => "center",
-    pickable: false,
-  });
-  const singlePoints = new ScatterplotLayer({
-    id: `${idPrefix}-singles`,
-    data: singles,
-    getPosition: (d: ClusterLayerData) => [d.longitude, d.latitude],
-    getRadius: singlePointRadius,
-    radiusUnits: "pixels",
-    filled: true,
-    stroked: false,
-    getFillColor: singlePointColor,
-    pickable: true,
-  });
-  return [singlePoints, clusterCircle, clusterText];
-}
-
 export interface BuildClusterIndexOptions {
   maxZoom?: number; // max zoom for clustering (default 16)
   radius?: number; // cluster radius in pixels (default 40)
   minPoints?: number; // min points to form cluster
+  aggregations?: ClusterAggregations; // default DEFAULT_AGGREGATIONS
 }
 
 export function buildClusterIndex(
   points: EventPoint[],
   options: BuildClusterIndexOptions = {}
 ) {
-  const { maxZoom = 16, radius = 40, minPoints = 2 } = options;
-  type P = { value: number; name?: string };
-  const index = new Supercluster<P>({
+  const {
+    maxZoom = 16,
+    radius = 40,
+    minPoints = 2,
+    aggregations = DEFAULT_AGGREGATIONS,
+  } = options;
+  const index: ClusterIndex = new Supercluster<LeafProps, ClusterProps>({
     maxZoom,
     radius,
     minPoints,
-    map: (props) => ({ value: props.value, name: props.name }),
+    map: (props) => ({ acc: initAccumulators(aggregations, props) }),
     reduce: (accumulated, props) => {
-      accumulated.value += props.value;
-      // name aggregation not needed
+      accumulated.acc = mergeAccumulators(
+        aggregations,
+        accumulated.acc,
+        props.acc
+      );
     },
   });
-  const features: PointFeature<P>[] = points.map((p) => ({
+  const features: PointFeature<LeafProps>[] = points.map((p) => ({
     type: "Feature",
     id: p.id,
-    properties: { value: p.value ?? 0, name: p.name },
+    properties: {
+      value: p.value ?? 0,
+      name: p.name,
+      category: p.category,
+      fields: p.fields,
+    },
     geometry: { type: "Point", coordinates: [p.lon, p.lat] },
   }));
   index.load(features);
+  indexAggregations.set(index, aggregations);
   return index;
 }
 
@@ -163,29 +240,7 @@ export function getClustersForViewport(
   bbox: [number, number, number, number],
   zoom: number
 ): ClusterFeature[] {
-  type CP = { value: number };
-  const items = index.getClusters(bbox, Math.floor(zoom)) as Array<
-    SCClusterFeature<CP> | PointFeature<CP>
-  >;
-  return items.map((f) => {
-    const [lon, lat] = f.geometry.coordinates as [number, number];
-    const isCluster = "cluster" in f.properties && !!f.properties.cluster;
-    const pointCount = isCluster
-      ? (f as SCClusterFeature<CP>).properties.point_count || 0
-      : 1;
-    const id =
-      ("id" in f && f.id) ||
-      (isCluster
-        ? (f as SCClusterFeature<CP>).properties.cluster_id
-        : undefined) ||
-      `${lon}_${lat}`;
-    return {
-      id: id!,
-      longitude: lon,
-      latitude: lat,
-      pointCount,
-    };
-  });
+  return composeClusterRenderable(index, bbox, zoom);
 }
 
 export function getClusterLeaves(
@@ -194,23 +249,113 @@ export function getClusterLeaves(
   limit = 50,
   offset = 0
 ): EventPoint[] {
-  const leaves = index.getLeaves(clusterId, limit, offset) as PointFeature<{
-    value: number;
-  }>[];
+  const leaves = index.getLeaves(
+    clusterId,
+    limit,
+    offset
+  ) as PointFeature<LeafProps>[];
   return leaves.map((l) => ({
+    ...l.properties,
     id: (l.id ?? "leaf").toString(),
     lon: l.geometry.coordinates[0],
     lat: l.geometry.coordinates[1],
-    value: l.properties.value,
   }));
 }
 
+// Bbox of all points in a cluster, e.g. for fitBounds
+export function getClusterBbox(
+  index: ReturnType<typeof buildClusterIndex>,
+  clusterId: number
+): Bbox | null {
+  const leaves = index.getLeaves(
+    clusterId,
+    Infinity
+  ) as PointFeature<LeafProps>[];
+  return boundsOfCoordinates(
+    leaves.map((l) => l.geometry.coordinates as [number, number])
+  );
+}
+
+// For each child (an item at zoom level childZoom), the index in `parents`
+// (items of a coarser level) of the one it belongs to, -1 if none. Walks
+// down from every parent with getChildren until it meets the children, so
+// the cost follows the clusters between the two levels, not their points.
+export function matchClusterParents(
+  index: ReturnType<typeof buildClusterIndex>,
+  parents: ClusterLayerData[],
+  children: ClusterLayerData[],
+  childZoom: number
+): number[] {
+  const childIndex = new Map(children.map((d, i) => [String(d.id), i]));
+  const out = children.map(() => -1);
+  parents.forEach((parent, i) => {
+    // [id, cluster id or null for a point]
+    const stack: [string, number | null][] = [
+      [String(parent.id), parent.isCluster ? Number(parent.id) : null],
+    ];
+    while (stack.length) {
+      const [id, clusterId] = stack.pop()!;
+      const child = childIndex.get(id);
+      if (child !== undefined) {
+        out[child] = i;
+        continue;
+      }
+      // a cluster that only splits beyond childZoom is itself out of view
+      if (
+        clusterId === null ||
+        index.getClusterExpansionZoom(clusterId) > childZoom
+      )
+        continue;
+      for (const f of index.getChildren(clusterId) as IndexFeature[]) {
+        const cluster =
+          "cluster" in f.properties && f.properties.cluster
+            ? (f as SCClusterFeature<ClusterProps>).properties.cluster_id
+            : null;
+        stack.push([String(f.id ?? cluster), cluster]);
+      }
+    }
+  });
+  return out;
+}
+
+export type SpiderShape = "auto" | "circle" | "spiral";
+
+const SPIDER_CIRCLE_MAX = 9; // "auto" switches to a spiral beyond this
+
+// Screen offsets (px) of n leaves fanned out around their cluster: a circle
+// for a few, an Archimedean spiral for many (as in Leaflet.markercluster)
+export function spiderfyOffsets(
+  n: number,
+  shape: SpiderShape = "auto",
+  spacingPx = 28
+): [number, number][] {
+  const spiral =
+    shape === "spiral" || (shape === "auto" && n > SPIDER_CIRCLE_MAX);
+  const offsets: [number, number][] = [];
+  if (!spiral) {
+    const radius = Math.max(spacingPx, (spacingPx * (2 + n)) / (2 * Math.PI));
+    for (let i = 0; i < n; i++) {
+      const angle = (2 * Math.PI * i) / n - Math.PI / 2;
+      offsets.push([radius * Math.cos(angle), radius * Math.sin(angle)]);
+    }
+    return offsets;
+  }
+  let legLength = spacingPx * 0.4;
+  let angle = 0;
+  for (let i = 0; i < n; i++) {
+    angle += spacingPx / legLength + i * 0.0005;
+    offsets.push([legLength * Math.cos(angle), legLength * Math.sin(angle)]);
+    legLength += (2 * Math.PI * spacingPx * 0.18) / angle;
+  }
+  return offsets;
+}
+
 export function computeBbox(
   lon: number,
   lat: number,
   delta = 60
 ): [number, number, number, number] {
-  return [lon - delta, lat - delta, lon + delta, lat + delta];
+  return normalizeBbox([lon - delta, lat - delta, lon + delta, lat + delta]);
 }
 
 export function generateRandomEvents(
@@ -244,11 +389,17 @@ export function generateRandomEvents(
     "Отчёт",
     "Запрос",
   ];
+  // roughly 80% info, 17% warning, 3% critical
+  const severity = (r: number) =>
+    r < 0.03 ? "critical" : r < 0.2 ? "warning" : "info";
   for (let i = 0; i < count; i++) {
     const angle = Math.random() * Math.PI * 2;
     const r = Math.random() * spreadDeg;
-    const lon = clon + Math.cos(angle) * r;
-    const lat = clat + Math.sin(angle) * r * 0.5; // squash lat spread
+    const lon = wrapLongitude(clon + Math.cos(angle) * r);
+    const lat = Math.max(
+      -85,
+      Math.min(85, clat + Math.sin(angle) * r * 0.5) // squash lat spread
+    );
     const name = `${adjectives[i % adjectives.length]} ${
       nouns[i % nouns.length]
     } #${i}`;
@@ -258,6 +409,7 @@ export function generateRandomEvents(
       lat,
       value: Math.round(Math.random() * 100),
       name,
+      category: severity(Math.random()),
     });
   }
   return pts;
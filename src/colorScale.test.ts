@@ -0,0 +1,199 @@
+// CSS color parsing, scale modes (log, quantile, classes) and legend ticks.
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  colorScaleTicks,
+  createColorScale,
+  parseColor,
+  rgbToHex,
+  toRgba,
+} from "./colorScale";
+
+const BLACK_WHITE = ["#000000", "#ffffff"];
+const gray = (v: number) => [v, v, v, 255];
+
+describe("parseColor", () => {
+  it.each([
+    ["#f00", [255, 0, 0, 255]],
+    ["#f008", [255, 0, 0, 136]],
+    ["#FF8000", [255, 128, 0, 255]],
+    ["#ff800080", [255, 128, 0, 128]],
+    ["abc", [170, 187, 204, 255]],
+    ["rgb(255, 128, 0)", [255, 128, 0, 255]],
+    ["rgb(100% 50% 0%)", [255, 128, 0, 255]],
+    ["rgba(255, 0, 0, 0.5)", [255, 0, 0, 128]],
+    ["rgb(255 0 0 / 50%)", [255, 0, 0, 128]],
+    ["hsl(120 100% 25%)", [0, 128, 0, 255]],
+    ["hsla(120, 100%, 25%, 0.5)", [0, 128, 0, 128]],
+    ["hsl(0.5turn 100% 50%)", [0, 255, 255, 255]],
+    ["hwb(0 0% 0%)", [255, 0, 0, 255]],
+    ["hwb(0 50% 50%)", [128, 128, 128, 255]],
+    ["oklab(0.627955 0.224863 0.125846)", [255, 0, 0, 255]],
+    ["oklch(0.627955 0.257683 29.2339)", [255, 0, 0, 255]],
+    ["oklch(62.8% 0.2577 29.23 / 50%)", [255, 0, 0, 128]],
+    ["RebeccaPurple", [102, 51, 153, 255]],
+    [" white ", [255, 255, 255, 255]],
+    ["transparent", [0, 0, 0, 0]],
+  ])("%s", (input, rgba) => {
+    expect(parseColor(input)).toEqual(rgba);
+  });
+
+  it("accepts [r, g, b(, a)] arrays", () => {
+    expect(parseColor([1, 2, 3])).toEqual([1, 2, 3, 255]);
+    expect(parseColor([1, 2, 3, 4])).toEqual([1, 2, 3, 4]);
+    expect(parseColor([1, 2] as unknown as [number, number, number])).toBe(
+      null
+    );
+  });
+
+  it.each([
+    "#12",
+    "#ggg",
+    "rgb(1, 2)",
+    "hsl(x 1 1)",
+    "notacolor",
+    "foo(1 2 3)",
+  ])("rejects %s", (input) => {
+    expect(parseColor(input)).toBeNull();
+  });
+});
+
+describe("toRgba", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it("falls back to gray without logging", () => {
+    const warn = vi.spyOn(console, "warn");
+    expect(toRgba("notacolor")).toEqual([128, 128, 128, 255]);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("returns a fresh fallback each time", () => {
+    const a = toRgba("nope");
+    a[0] = 0;
+    expect(toRgba("nope")[0]).toBe(128);
+  });
+});
+
+describe("createColorScale", () => {
+  it("spreads colors evenly over a linear domain", () => {
+    const scale = createColorScale(0, 100, { colors: BLACK_WHITE });
+    expect(scale(0)).toEqual(gray(0));
+    expect(scale(50)).toEqual(gray(128));
+    expect(scale(150)).toEqual(gray(255));
+    expect(scale(NaN)).toEqual(gray(128));
+  });
+
+  it("maps log(1 + value - min) in log mode", () => {
+    const scale = createColorScale(0, 99, { colors: BLACK_WHITE, mode: "log" });
+    // log1p(9) / log1p(99) = 0.5
+    expect(scale(9)).toEqual(gray(128));
+    expect(scale(99)).toEqual(gray(255));
+  });
+
+  it("ranks values among the sample in quantile mode", () => {
+    const values = [0, 1, 2, 3, 100];
+    const scale = createColorScale(0, 100, {
+      colors: BLACK_WHITE,
+      mode: "quantile",
+      values,
+    });
+    expect(scale(2)).toEqual(gray(128));
+    expect(scale(3)).toEqual(gray(191));
+    expect(scale(-5)).toEqual(gray(0));
+  });
+
+  it("is linear in quantile mode without a usable sample", () => {
+    const scale = createColorScale(0, 100, {
+      colors: BLACK_WHITE,
+      mode: "quantile",
+      values: [NaN, 4],
+    });
+    expect(scale(50)).toEqual(gray(128));
+  });
+
+  it("steps through a class count or explicit breaks", () => {
+    const counted = createColorScale(0, 100, {
+      colors: BLACK_WHITE,
+      classes: 4,
+    });
+    expect([10, 30, 60, 90].map((v) => rgbToHex(counted(v)))).toEqual([
+      "#000000",
+      "#555555",
+      "#aaaaaa",
+      "#ffffff",
+    ]);
+    const breaks = createColorScale(0, 100, {
+      colors: BLACK_WHITE,
+      classes: [50, 10],
+    });
+    expect([5, 10, 30, 50].map(breaks)).toEqual([
+      gray(0),
+      gray(128),
+      gray(128),
+      gray(255),
+    ]);
+  });
+
+  it("places explicit stops in metric units", () => {
+    const scale = createColorScale(0, 100, {
+      stops: [
+        { value: 80, color: "#ffffff" },
+        { value: 20, color: "#000000" },
+      ],
+    });
+    expect(scale(10)).toEqual(gray(0));
+    expect(scale(65)).toEqual(gray(191));
+    expect(scale(90)).toEqual(gray(255));
+  });
+
+  it("interpolates in OKLab and HCL", () => {
+    for (const interpolation of ["oklab", "hcl"] as const) {
+      const scale = createColorScale(0, 1, {
+        colors: ["#ff0000", "#0000ff"],
+        interpolation,
+      });
+      expect(scale(0)).toEqual([255, 0, 0, 255]);
+      expect(scale(1)).toEqual([0, 0, 255, 255]);
+      expect(scale(0.5)).not.toEqual([128, 0, 128, 255]);
+    }
+  });
+});
+
+describe("colorScaleTicks", () => {
+  it("puts a tick at every evenly spread color", () => {
+    expect(
+      colorScaleTicks(0, 100, { colors: ["red", "lime", "blue"] })
+    ).toEqual([0, 50, 100]);
+    // log positions round-trip to the domain ends exactly
+    expect(
+      colorScaleTicks(0, 99, { mode: "log", colors: ["red", "lime", "blue"] })
+    ).toEqual([0, expect.closeTo(9, 9), 99]);
+  });
+
+  it("lists class breaks with the domain ends", () => {
+    expect(colorScaleTicks(0, 100, { classes: 4 })).toEqual([
+      0, 25, 50, 75, 100,
+    ]);
+    expect(colorScaleTicks(0, 100, { classes: [70, 30, 130] })).toEqual([
+      0, 30, 70, 100,
+    ]);
+    expect(
+      colorScaleTicks(0, 100, {
+        mode: "quantile",
+        values: [0, 1, 2, 3, 100],
+        classes: 2,
+      })
+    ).toEqual([0, 2, 100]);
+  });
+
+  it("lists explicit stops inside the domain", () => {
+    expect(
+      colorScaleTicks(0, 100, {
+        stops: [
+          { value: 20, color: "red" },
+          { value: 150, color: "blue" },
+        ],
+      })
+    ).toEqual([0, 20, 100]);
+  });
+});
@@ -0,0 +1,658 @@
+// Color scales for the hotline: CSS color parsing (with alpha), continuous or
+// stepped scales over linear / log / quantile domains, interpolation in sRGB,
+// OKLab or HCL, and built-in palettes.
+
+export type RGB = [number, number, number];
+export type RGBA = [number, number, number, number]; // alpha 0..255
+export type ColorInput = string | RGB | RGBA;
+
+export interface ColorStop {
+  value: number; // in metric units
+  color: ColorInput;
+}
+
+export type ScaleMode = "linear" | "log" | "quantile";
+export type ColorSpace = "rgb" | "oklab" | "hcl";
+
+export interface ColorScaleOptions {
+  colors?: ColorInput[] | PaletteName; // spread evenly over [min, max]
+  stops?: ColorStop[]; // explicit positions; replace `colors`
+  // linear (default); log: log(1 + value - min), so zero / negative ranges
+  // work; quantile: rank of the value among `values` (linear when fewer than
+  // two of them are finite)
+  mode?: ScaleMode;
+  values?: number[]; // sample for quantile mode (e.g. all metric values)
+  // Discrete classes instead of a gradient: a count (equal steps in scale
+  // space, so quantile classes hold equal shares) or break values
+  classes?: number | number[];
+  interpolation?: ColorSpace; // default "rgb"
+  unknownColor?: ColorInput; // non-finite values (default gray)
+}
+
+// ---- Palettes ----
+
+export const PALETTES = {
+  hotline: ["#00aa00", "#ffff00", "#ffa500", "#ff0000"],
+  viridis: [
+    "#440154",
+    "#472d7b",
+    "#3b528b",
+    "#2c728e",
+    "#21918c",
+    "#28ae80",
+    "#5ec962",
+    "#addc30",
+    "#fde725",
+  ],
+  cividis: [
+    "#00204d",
+    "#00336f",
+    "#39486b",
+    "#575c6d",
+    "#707173",
+    "#8a8779",
+    "#a69d75",
+    "#c4b56c",
+    "#e4cf5b",
+    "#fee838",
+  ],
+  magma: [
+    "#000004",
+    "#1c1044",
+    "#4f127b",
+    "#812581",
+    "#b5367a",
+    "#e55064",
+    "#fb8761",
+    "#fec287",
+    "#fcfdbf",
+  ],
+  inferno: [
+    "#000004",
+    "#1f0c48",
+    "#550f6d",
+    "#88226a",
+    "#ba3655",
+    "#e35933",
+    "#f98e09",
+    "#f9cb35",
+    "#fcffa4",
+  ],
+  plasma: [
+    "#0d0887",
+    "#4c02a1",
+    "#7e03a8",
+    "#a82296",
+    "#cb4679",
+    "#e56b5d",
+    "#f89441",
+    "#fdc328",
+    "#f0f921",
+  ],
+  turbo: [
+    "#30123b",
+    "#4662d7",
+    "#36aaf9",
+    "#1ae4b6",
+    "#72fe5e",
+    "#c7ef34",
+    "#fabb39",
+    "#f66b19",
+    "#7a0403",
+  ],
+  // ColorBrewer RdYlBu, low values blue
+  blueRed: [
+    "#313695",
+    "#4575b4",
+    "#74add1",
+    "#abd9e9",
+    "#e0f3f8",
+    "#ffffbf",
+    "#fee090",
+    "#fdae61",
+    "#f46d43",
+    "#d73027",
+    "#a50026",
+  ],
+  ylOrRd: [
+    "#ffffcc",
+    "#ffeda0",
+    "#fed976",
+    "#feb24c",
+    "#fd8d3c",
+    "#fc4e2a",
+    "#e31a1c",
+    "#bd0026",
+    "#800026",
+  ],
+} satisfies Record<string, string[]>;
+
+export type PaletteName = keyof typeof PALETTES;
+
+// Readable for the common forms of color vision deficiency
+export const COLORBLIND_SAFE_PALETTES: PaletteName[] = [
+  "viridis",
+  "cividis",
+  "magma",
+  "inferno",
+  "plasma",
+  "blueRed",
+  "ylOrRd",
+];
+
+export const DEFAULT_PALETTE: PaletteName = "hotline";
+
+// ---- Parsing ----
+
+// CSS named colors, "name rrggbb" pairs
+const NAMED_COLORS = `aliceblue f0f8ff antiquewhite faebd7 aqua 00ffff
+aquamarine 7fffd4 azure f0ffff beige f5f5dc bisque ffe4c4 black 000000
+blanchedalmond ffebcd blue 0000ff blueviolet 8a2be2 brown a52a2a
+burlywood deb887 cadetblue 5f9ea0 chartreuse 7fff00 chocolate d2691e
+coral ff7f50 cornflowerblue 6495ed cornsilk fff8dc crimson dc143c
+cyan 00ffff darkblue 00008b darkcyan 008b8b darkgoldenrod b8860b
+darkgray a9a9a9 darkgreen 006400 darkgrey a9a9a9 darkkhaki bdb76b
+darkmagenta 8b008b darkolivegreen 556b2f darkorange ff8c00
+darkorchid 9932cc darkred 8b0000 darksalmon e9967a darkseagreen 8fbc8f
+darkslateblue 483d8b darkslategray 2f4f4f darkslategrey 2f4f4f
+darkturquoise 00ced1 darkviolet 9400d3 deeppink ff1493
+deepskyblue 00bfff dimgray 696969 dimgrey 696969 dodgerblue 1e90ff
+firebrick b22222 floralwhite fffaf0 forestgreen 228b22 fuchsia ff00ff
+gainsboro dcdcdc ghostwhite f8f8ff gold ffd700 goldenrod daa520
+gray 808080 green 008000 greenyellow adff2f grey 808080 honeydew f0fff0
+hotpink ff69b4 indianred cd5c5c indigo 4b0082 ivory fffff0 khaki f0e68c
+lavender e6e6fa lavenderblush fff0f5 lawngreen 7cfc00
+lemonchiffon fffacd lightblue add8e6 lightcoral f08080 lightcyan e0ffff
+lightgoldenrodyellow fafad2 lightgray d3d3d3 lightgreen 90ee90
+lightgrey d3d3d3 lightpink ffb6c1 lightsalmon ffa07a
+lightseagreen 20b2aa lightskyblue 87cefa lightslategray 778899
+lightslategrey 778899 lightsteelblue b0c4de lightyellow ffffe0
+lime 00ff00 limegreen 32cd32 linen faf0e6 magenta ff00ff maroon 800000
+mediumaquamarine 66cdaa mediumblue 0000cd mediumorchid ba55d3
+mediumpurple 9370db mediumseagreen 3cb371 mediumslateblue 7b68ee
+mediumspringgreen 00fa9a mediumturquoise 48d1cc
+mediumvioletred c71585 midnightblue 191970 mintcream f5fffa
+mistyrose ffe4e1 moccasin ffe4b5 navajowhite ffdead navy 000080
+oldlace fdf5e6 olive 808000 olivedrab 6b8e23 orange ffa500
+orangered ff4500 orchid da70d6 palegoldenrod eee8aa palegreen 98fb98
+paleturquoise afeeee palevioletred db7093 papayawhip ffefd5
+peachpuff ffdab9 peru cd853f pink ffc0cb plum dda0dd powderblue b0e0e6
+purple 800080 rebeccapurple 663399 red ff0000 rosybrown bc8f8f
+royalblue 4169e1 saddlebrown 8b4513 salmon fa8072 sandybrown f4a460
+seagreen 2e8b57 seashell fff5ee sienna a0522d silver c0c0c0
+skyblue 87ceeb slateblue 6a5acd slategray 708090 slategrey 708090
+snow fffafa springgreen 00ff7f steelblue 4682b4 tan d2b48c teal 008080
+thistle d8bfd8 tomato ff6347 turquoise 40e0d0 violet ee82ee
+wheat f5deb3 white ffffff whitesmoke f5f5f5 yellow ffff00
+yellowgreen 9acd32`;
+
+let namedColors: Map<string, string> | null = null;
+function namedColor(name: string) {
+  if (!namedColors) {
+    namedColors = new Map();
+    const parts = NAMED_COLORS.split(/\s+/);
+    for (let i = 0; i < parts.length; i += 2)
+      namedColors.set(parts[i], parts[i + 1]);
+  }
+  return namedColors.get(name);
+}
+
+const clamp = (x: number, lo: number, hi: number) =>
+  Math.max(lo, Math.min(hi, x));
+
+function parseHex(hex: string): RGBA | null {
+  if (!/^[0-9a-f]+$/i.test(hex)) return null;
+  const short = hex.length === 3 || hex.length === 4;
+  if (!short && hex.length !== 6 && hex.length !== 8) return null;
+  const digits = short ? hex.replace(/./g, "$&$&") : hex;
+  const c = [0, 2, 4, 6].map((i) => parseInt(digits.slice(i, i + 2), 16));
+  return [c[0], c[1], c[2], Number.isNaN(c[3]) ? 255 : c[3]];
+}
+
+// Number with optional % (scaled by `percent`) or angle unit; NaN if invalid
+function parseNumber(s: string, percent = 1): number {
+  if (s === "none") return 0;
+  const m =
+    /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/i.exec(s);
+  if (!m) return NaN;
+  const v = Number(m[1]);
+  switch (m[2]?.toLowerCase()) {
+    case "%":
+      return (v / 100) * percent;
+    case "rad":
+      return (v * 180) / Math.PI;
+    case "grad":
+      return v * 0.9;
+    case "turn":
+      return v * 360;
+    default:
+      return v;
+  }
+}
+
+function hslToRgb(h: number, s: number, l: number): RGB {
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const a = s * Math.min(l, 1 - l);
+    return 255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1)));
+  };
+  return [f(0), f(8), f(4)];
+}
+
+function hwbToRgb(h: number, w: number, b: number): RGB {
+  if (w + b >= 1) {
+    const gray = (255 * w) / (w + b);
+    return [gray, gray, gray];
+  }
+  return hslToRgb(h, 1, 0.5).map((c) => c * (1 - w - b) + 255 * w) as RGB;
+}
+
+// Saturation / lightness / whiteness: "50%" or a bare 50
+const parsePercent = (s: string) =>
+  clamp(s.endsWith("%") ? parseNumber(s, 1) : parseNumber(s) / 100, 0, 1);
+
+function parseFunction(name: string, args: string): RGBA | null {
+  const [main, alphaPart] = args.split("/");
+  const parts = main.split(/[\s,]+/).filter(Boolean);
+  let alpha = 1;
+  if (alphaPart !== undefined) alpha = parseNumber(alphaPart.trim(), 1);
+  else if (parts.length === 4) alpha = parseNumber(parts.pop() as string, 1);
+  if (parts.length !== 3) return null;
+  let rgb: RGB;
+  switch (name) {
+    case "rgb":
+    case "rgba":
+      rgb = parts.map((p) => parseNumber(p, 255)) as RGB;
+      break;
+    case "hsl":
+    case "hsla":
+      rgb = hslToRgb(
+        ((parseNumber(parts[0]) % 360) + 360) % 360,
+        parsePercent(parts[1]),
+        parsePercent(parts[2])
+      );
+      break;
+    case "hwb":
+      rgb = hwbToRgb(
+        ((parseNumber(parts[0]) % 360) + 360) % 360,
+        parsePercent(parts[1]),
+        parsePercent(parts[2])
+      );
+      break;
+    case "oklab":
+      rgb = oklabToRgb([
+        parseNumber(parts[0], 1),
+        parseNumber(parts[1], 0.4),
+        parseNumber(parts[2], 0.4),
+      ]);
+      break;
+    case "oklch": {
+      const c = parseNumber(parts[1], 0.4);
+      const h = (parseNumber(parts[2]) * Math.PI) / 180;
+      rgb = oklabToRgb([
+        parseNumber(parts[0], 1),
+        c * Math.cos(h),
+        c * Math.sin(h),
+      ]);
+      break;
+    }
+    default:
+      return null;
+  }
+  const out = [...rgb, clamp(alpha, 0, 1) * 255];
+  if (out.some((v) => Number.isNaN(v))) return null;
+  return out.map((v) => Math.round(clamp(v, 0, 255))) as RGBA;
+}
+
+// Any CSS color (hex with optional alpha, rgb(), hsl(), hwb(), oklab(),
+// oklch(), named colors, transparent) or an [r, g, b(, a)] array; null when
+// it can't be parsed. Bare hex digits without "#" are accepted as well.
+export function parseColor(c: ColorInput): RGBA | null {
+  if (Array.isArray(c)) {
+    if (c.length < 3 || c.some((v) => !Number.isFinite(v))) return null;
+    return [c[0], c[1], c[2], c.length > 3 ? (c[3] as number) : 255];
+  }
+  const s = c.trim().toLowerCase();
+  if (s === "transparent") return [0, 0, 0, 0];
+  if (s.startsWith("#")) return parseHex(s.slice(1));
+  const named = namedColor(s);
+  if (named) return parseHex(named);
+  const fn = /^([a-z]+)\(\s*(.*?)\s*\)$/.exec(s);
+  if (fn) return parseFunction(fn[1], fn[2]);
+  return parseHex(s);
+}
+
+const FALLBACK_COLOR: RGBA = [128, 128, 128, 255];
+
+// Like parseColor, but unparseable input becomes neutral gray so a typo in a
+// palette can't break rendering; use parseColor to validate input
+export function toRgba(c: ColorInput): RGBA {
+  return parseColor(c) ?? [...FALLBACK_COLOR];
+}
+
+export function rgbToHex(c: RGB | RGBA): string {
+  const hex = (v: number) => Math.round(v).toString(16).padStart(2, "0");
+  const alpha = c.length > 3 && c[3] !== 255 ? hex(c[3] as number) : "";
+  return `#${hex(c[0])}${hex(c[1])}${hex(c[2])}${alpha}`;
+}
+
+// CSS rgba() string, e.g. for MapLibre expressions
+export function rgbaToCss([r, g, b, a]: RGBA): string {
+  return `rgba(${r}, ${g}, ${b}, ${+(a / 255).toFixed(3)})`;
+}
+
+// ---- Color spaces ----
+
+type Vec3 = [number, number, number];
+
+const toLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+};
+const fromLinear = (v: number) =>
+  255 *
+  (v <= 0.0031308
+    ? 12.92 * v
+    : 1.055 * Math.pow(Math.max(v, 0), 1 / 2.4) - 0.055);
+
+function rgbToOklab(c: RGB | RGBA): Vec3 {
+  const r = toLinear(c[0]);
+  const g = toLinear(c[1]);
+  const b = toLinear(c[2]);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+}
+
+function oklabToRgb([L, a, b]: Vec3): RGB {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3;
+  return [
+    fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+  ];
+}
+
+// CIE LCh(ab), D65 white
+const LAB_E = (6 / 29) ** 3;
+const LAB_K = 3 * (6 / 29) ** 2;
+const labF = (t: number) => (t > LAB_E ? Math.cbrt(t) : t / LAB_K + 4 / 29);
+const labFInv = (t: number) => (t > 6 / 29 ? t ** 3 : LAB_K * (t - 4 / 29));
+const WHITE: Vec3 = [0.95047, 1, 1.08883];
+
+function rgbToHcl(c: RGB | RGBA): Vec3 {
+  const r = toLinear(c[0]);
+  const g = toLinear(c[1]);
+  const b = toLinear(c[2]);
+  const fx = labF((0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / WHITE[0]);
+  const fy = labF((0.2126729 * r + 0.7151522 * g + 0.072175 * b) / WHITE[1]);
+  const fz = labF((0.0193339 * r + 0.119192 * g + 0.9503041 * b) / WHITE[2]);
+  const A = 500 * (fx - fy);
+  const B = 200 * (fy - fz);
+  const h = (Math.atan2(B, A) * 180) / Math.PI;
+  return [h < 0 ? h + 360 : h, Math.hypot(A, B), 116 * fy - 16];
+}
+
+function hclToRgb([h, c, l]: Vec3): RGB {
+  const hr = (h * Math.PI) / 180;
+  const fy = (l + 16) / 116;
+  const fx = fy + (c * Math.cos(hr)) / 500;
+  const fz = fy - (c * Math.sin(hr)) / 200;
+  const x = WHITE[0] * labFInv(fx);
+  const y = WHITE[1] * labFInv(fy);
+  const z = WHITE[2] * labFInv(fz);
+  return [
+    fromLinear(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+    fromLinear(-0.969266 * x + 1.8760108 * y + 0.041556 * z),
+    fromLinear(0.0556434 * x - 0.2040259 * y + 1.0572252 * z),
+  ];
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Interpolator between two parsed colors in the given space
+function colorInterpolator(a: RGBA, b: RGBA, space: ColorSpace) {
+  const finish = (rgb: RGB, t: number): RGBA => [
+    Math.round(clamp(rgb[0], 0, 255)),
+    Math.round(clamp(rgb[1], 0, 255)),
+    Math.round(clamp(rgb[2], 0, 255)),
+    Math.round(lerp(a[3], b[3], t)),
+  ];
+  if (space === "oklab") {
+    const la = rgbToOklab(a);
+    const lb = rgbToOklab(b);
+    return (t: number) =>
+      finish(oklabToRgb(la.map((v, i) => lerp(v, lb[i], t)) as Vec3), t);
+  }
+  if (space === "hcl") {
+    const ha = rgbToHcl(a);
+    const hb = rgbToHcl(b);
+    // grays have no hue: take the other end's
+    if (ha[1] < 1e-4) ha[0] = hb[0];
+    if (hb[1] < 1e-4) hb[0] = ha[0];
+    let dh = hb[0] - ha[0];
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+    return (t: number) =>
+      finish(
+        hclToRgb([
+          ha[0] + dh * t,
+          lerp(ha[1], hb[1], t),
+          lerp(ha[2], hb[2], t),
+        ]),
+        t
+      );
+  }
+  return (t: number) =>
+    finish([lerp(a[0], b[0], t), lerp(a[1], b[1], t), lerp(a[2], b[2], t)], t);
+}
+
+// ---- Scales ----
+
+export type ColorScale = (value: number) => RGBA;
+
+// Palette name or color list; empty / missing falls back to the default
+export function resolveColors(colors?: ColorInput[] | PaletteName) {
+  if (typeof colors === "string") return PALETTES[colors] ?? PALETTES.hotline;
+  return colors?.length ? colors : PALETTES[DEFAULT_PALETTE];
+}
+
+const sortedFinite = (values: number[] = []) =>
+  values.filter((v) => Number.isFinite(v)).sort((a, b) => a - b);
+
+// Maps a value to [0, 1] along the scale domain
+function domainTransform(
+  minValue: number,
+  maxValue: number,
+  mode: ScaleMode,
+  values?: number[]
+): (value: number) => number {
+  const span = maxValue - minValue || 1;
+  if (mode === "log") {
+    const logSpan = Math.log1p(Math.abs(span));
+    return (v) => clamp(Math.log1p(Math.max(0, v - minValue)) / logSpan, 0, 1);
+  }
+  if (mode === "quantile") {
+    const sorted = sortedFinite(values);
+    const n = sorted.length;
+    if (n >= 2) {
+      return (v) => {
+        if (v <= sorted[0]) return 0;
+        if (v >= sorted[n - 1]) return 1;
+        // rank of v, interpolated between neighbouring samples
+        let lo = 0;
+        let hi = n - 1;
+        while (hi - lo > 1) {
+          const mid = (lo + hi) >> 1;
+          if (sorted[mid] <= v) lo = mid;
+          else hi = mid;
+        }
+        const gap = sorted[hi] - sorted[lo];
+        return (lo + (gap > 0 ? (v - sorted[lo]) / gap : 0)) / (n - 1);
+      };
+    }
+  }
+  return (v) => clamp((v - minValue) / span, 0, 1);
+}
+
+// Value at a [0, 1] position of the domain (inverse of domainTransform)
+function domainInverse(
+  minValue: number,
+  maxValue: number,
+  mode: ScaleMode,
+  values?: number[]
+): (u: number) => number {
+  const span = maxValue - minValue || 1;
+  if (mode === "log") {
+    const logSpan = Math.log1p(Math.abs(span));
+    return (u) => minValue + Math.expm1(u * logSpan);
+  }
+  if (mode === "quantile") {
+    const sorted = sortedFinite(values);
+    const n = sorted.length;
+    if (n >= 2) {
+      return (u) => {
+        const x = clamp(u, 0, 1) * (n - 1);
+        const i = Math.min(n - 2, Math.floor(x));
+        return lerp(sorted[i], sorted[i + 1], x - i);
+      };
+    }
+  }
+  return (u) => minValue + u * span;
+}
+
+// Values worth labelling on a legend, ascending and within the domain: class
+// breaks or explicit stops (with the domain ends), otherwise the positions of
+// the evenly spread colors
+export function colorScaleTicks(
+  minValue: number,
+  maxValue: number,
+  options: ColorScaleOptions = {}
+): number[] {
+  const { mode = "linear", classes } = options;
+  const lo = Math.min(minValue, maxValue);
+  const hi = Math.max(minValue, maxValue);
+  // clamped: log / quantile round trips can land a hair outside the domain
+  const inverse = domainInverse(minValue, maxValue, mode, options.values);
+  const fromUnit = (u: number) => clamp(inverse(u), lo, hi);
+  let ticks: number[];
+  if (classes !== undefined) {
+    const breaks = Array.isArray(classes)
+      ? classes
+      : Array.from({ length: Math.max(1, classes) - 1 }, (_, i) =>
+          fromUnit((i + 1) / classes)
+        );
+    ticks = [minValue, ...breaks, maxValue];
+  } else if (options.stops?.length) {
+    ticks = [minValue, ...options.stops.map((s) => s.value), maxValue];
+  } else {
+    const n = resolveColors(options.colors).length;
+    ticks = Array.from({ length: n }, (_, i) =>
+      fromUnit(n > 1 ? i / (n - 1) : 0)
+    );
+  }
+  return Array.from(new Set(ticks))
+    .filter((v) => Number.isFinite(v) && v >= lo && v <= hi)
+    .sort((a, b) => a - b);
+}
+
+// Continuous or stepped value -> RGBA scale. `minValue` / `maxValue` bound the
+// domain for evenly spread colors and for log mode; explicit stops and class
+// breaks are in metric units.
+export function createColorScale(
+  minValue: number,
+  maxValue: number,
+  options: ColorScaleOptions = {}
+): ColorScale {
+  const {
+    mode = "linear",
+    interpolation = "rgb",
+    classes,
+    unknownColor = [128, 128, 128],
+  } = options;
+  const toUnit = domainTransform(minValue, maxValue, mode, options.values);
+  const unknown = toRgba(unknownColor);
+
+  // ramp stops at unit positions, ascending
+  const sortedStops = options.stops?.length
+    ? [...options.stops].sort((a, b) => a.value - b.value)
+    : null;
+  const ramp = sortedStops
+    ? sortedStops.map((s) => ({ at: toUnit(s.value), color: toRgba(s.color) }))
+    : resolveColors(options.colors).map((c, i, all) => ({
+        at: all.length > 1 ? i / (all.length - 1) : 0,
+        color: toRgba(c),
+      }));
+  const pieces = ramp
+    .slice(1)
+    .map((stop, i) =>
+      colorInterpolator(ramp[i].color, stop.color, interpolation)
+    );
+  const sampleRamp = (u: number): RGBA => {
+    if (ramp.length === 1 || u <= ramp[0].at) return ramp[0].color;
+    for (let i = 1; i < ramp.length; i++) {
+      if (u > ramp[i].at) continue;
+      const span = ramp[i].at - ramp[i - 1].at;
+      return pieces[i - 1](span > 0 ? (u - ramp[i - 1].at) / span : 1);
+    }
+    return ramp[ramp.length - 1].color;
+  };
+
+  if (classes === undefined) {
+    return (value) =>
+      Number.isFinite(value) ? sampleRamp(toUnit(value)) : unknown;
+  }
+  // class boundaries in unit space; class k gets the ramp color at k/(n-1)
+  const bounds = Array.isArray(classes)
+    ? [...classes].sort((a, b) => a - b).map(toUnit)
+    : Array.from(
+        { length: Math.max(1, classes) - 1 },
+        (_, i) => (i + 1) / classes
+      );
+  const n = bounds.length + 1;
+  const classColors = Array.from({ length: n }, (_, k) =>
+    sampleRamp(n > 1 ? k / (n - 1) : 0)
+  );
+  return (value) => {
+    if (!Number.isFinite(value)) return unknown;
+    const u = toUnit(value);
+    let k = 0;
+    while (k < bounds.length && u >= bounds[k]) k++;
+    return classColors[k];
+  };
+}
+
+// CSS linear-gradient of a scale over [minValue, maxValue] as drawn on a
+// linear axis (legend, chart); class edges become hard stops
+export function colorScaleToCss(
+  minValue: number,
+  maxValue: number,
+  options: ColorScaleOptions = {},
+  angleDeg = 90
+): string {
+  const scale = createColorScale(minValue, maxValue, options);
+  const stepped = options.classes !== undefined;
+  const samples = stepped ? 256 : 32;
+  const parts: string[] = [];
+  let prev = "";
+  for (let i = 0; i <= samples; i++) {
+    const f = i / samples;
+    const color = rgbToHex(scale(lerp(minValue, maxValue, f)));
+    const pct = `${(f * 100).toFixed(1)}%`;
+    if (stepped) {
+      if (color === prev) continue;
+      if (prev) parts.push(`${prev} ${pct}`);
+    }
+    parts.push(`${color} ${pct}`);
+    prev = color;
+  }
+  if (stepped) parts.push(`${prev} 100%`);
+  return `linear-gradient(${angleDeg}deg, ${parts.join(", ")})`;
+}
@@ -1,42 +1,99 @@
 // Reusable Hotline utilities: building gradient segments, color scale, nearest-point lookup.
-// Customizable min/max speed for coloring and arbitrary color arrays.
+// Customizable min/max for coloring and arbitrary color arrays.
+// The colored value is any per-point metric (speed by default).
+
+import type { SpatialIndex, SpatialIndexData } from "./spatialIndex";
+import { createSpatialIndex, spatialIndexFromData } from "./spatialIndex";
+import type {
+  ColorInput,
+  ColorScale,
+  ColorScaleOptions,
+  PaletteName,
+} from "./colorScale";
+import {
+  colorScaleToCss,
+  createColorScale,
+  resolveColors,
+  rgbToHex,
+  toRgba,
+} from "./colorScale";
 
 export interface Point {
   lon: number;
   lat: number;
   speed: number; // km/h
   timestamp: number; // ms epoch
+  metrics?: Record<string, number>; // extra named values (altitude, rpm, fuel...)
+}
+
+// A named metric ("speed" or a key of Point.metrics) or a custom accessor
+export type ValueAccessor = (p: Point) => number;
+export type Metric = string | ValueAccessor;
+
+export const DEFAULT_METRIC = "speed";
+
+export function resolveMetric(metric: Metric = DEFAULT_METRIC): ValueAccessor {
+  if (typeof metric === "function") return metric;
+  if (metric === "speed") return (p) => p.speed;
+  return (p) => p.metrics?.[metric] ?? NaN;
 }
 
 export interface Segment {
   id: string;
   path: [number, number][]; // start/end
-  speed: number; // representative (midpoint) speed for color
+  value: number; // representative (midpoint) metric value for color
+  speed: number; // representative (midpoint) speed
   timestamp: number; // midpoint timestamp
-  speed0: number; // endpoints for interpolation
+  value0: number; // endpoints for interpolation
+  value1: number;
+  speed0: number;
   speed1: number;
   time0: number;
   time1: number;
+  widthValue?: number; // midpoint of the width metric, when one is set
+}
+
+export interface ViewState {
+  longitude: number;
+  latitude: number;
+  zoom: number;
+  pitch: number;
+  bearing: number;
 }
 
 export interface BuildResult {
   segments: Segment[];
-  minSpeed: number; // observed (or override)
-  maxSpeed: number; // observed (or override)
-  initialViewState: {
-    longitude: number;
-    latitude: number;
-    zoom: number;
-    pitch: number;
-    bearing: number;
-  };
-  gridIndex: Record<string, Segment[]>; // spatial index on midpoints
-  gridSize: number; // degrees
+  minValue: number; // observed (or override)
+  maxValue: number; // observed (or override)
+  initialViewState: ViewState;
+  index: SegmentIndex; // spatial index over segment bounding boxes
+  bbox: Bbox | null; // null when there are no segments
+  gaps: TrackGap[]; // point pairs not drawn because of gap rules
+  widthRange: [number, number] | null; // observed widthValue range
+}
+
+// Consecutive points further apart than any of these limits are not joined
+export interface GapRules {
+  maxTimeGapMs?: number;
+  maxDistanceMeters?: number;
+  maxSpeedKmh?: number; // implied by distance / time between the two fixes
 }
 
+export interface TrackGap {
+  index: number; // index of the point before the gap
+  path: [number, number][]; // start/end
+  time0: number;
+  time1: number;
+  reason: "time" | "distance" | "speed";
+}
+
+// [west, south, east, north]; east may exceed 180 for antimeridian tracks
+export type Bbox = [number, number, number, number];
+
 export interface NearestResult {
   lon: number;
   lat: number;
+  value: number; // colored metric at the projected point
   speed: number;
   timestamp: number;
   distMeters: number;
@@ -45,199 +102,534 @@ export interface NearestResult {
 // Linear interpolation
 const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
 
-type RGB = [number, number, number];
-export type RGBA = [number, number, number, number];
-
-function parseColor(c: string | RGB): RGB {
-  if (Array.isArray(c)) return c;
-  let s = c.trim();
-  if (s.startsWith("#")) s = s.slice(1);
-  if (s.length === 3) {
-    const r = parseInt(s[0] + s[0], 16);
-    const g = parseInt(s[1] + s[1], 16);
-    const b = parseInt(s[2] + s[2], 16);
-    return [r, g, b];
-  }
-  if (s.length === 6) {
-    const r = parseInt(s.slice(0, 2), 16);
-    const g = parseInt(s.slice(2, 4), 16);
-    const b = parseInt(s.slice(4, 6), 16);
-    return [r, g, b];
-  }
-  // fallback gray
-  return [128, 128, 128];
+export type { RGB, RGBA } from "./colorScale";
+export { rgbToHex } from "./colorScale";
+
+// Maps any metric value onto the colors (default palette when empty); the
+// name is kept for compatibility. See createColorScale for stops, classes,
+// log / quantile modes and perceptual interpolation.
+export function createSpeedColorScale(
+  minValue: number,
+  maxValue: number,
+  colors: ColorInput[] | PaletteName,
+  options: ColorScaleOptions = {}
+): ColorScale {
+  return createColorScale(minValue, maxValue, { ...options, colors });
 }
 
-function lerpColor(a: RGB, b: RGB, t: number): RGBA {
-  return [
-    Math.round(lerp(a[0], b[0], t)),
-    Math.round(lerp(a[1], b[1], t)),
-    Math.round(lerp(a[2], b[2], t)),
-    255,
-  ];
+export interface WidthScaleOptions {
+  minWidth?: number; // width at minValue (default 2)
+  maxWidth?: number; // width at maxValue (default 12)
+  // sqrt keeps the line area, not its width, proportional to the value
+  mode?: "linear" | "sqrt";
 }
 
-export function createSpeedColorScale(
-  minSpeed: number,
-  maxSpeed: number,
-  colors: (string | RGB)[]
-): (speed: number) => RGBA {
-  const stops = (
-    colors.length ? colors : ["#00aa00", "#ffff00", "#ffa500", "#ff0000"]
-  ).map(parseColor);
-  const n = stops.length;
-  return (speed: number) => {
-    if (!Number.isFinite(speed)) return [128, 128, 128, 255];
-    const span = maxSpeed - minSpeed || 1;
-    let u = (speed - minSpeed) / span;
-    u = Math.max(0, Math.min(1, u));
-    if (n === 1) {
-      const c = stops[0];
-      return [c[0], c[1], c[2], 255];
-    }
-    const scaled = u * (n - 1);
-    const i = Math.floor(scaled);
-    const t = scaled - i;
-    const c1 = stops[i];
-    const c2 = stops[Math.min(i + 1, n - 1)];
-    return lerpColor(c1, c2, t);
+// Maps the width metric onto [minWidth, maxWidth] (clamped); non-finite
+// values get minWidth
+export function createWidthScale(
+  minValue: number,
+  maxValue: number,
+  options: WidthScaleOptions = {}
+): (value: number) => number {
+  const { minWidth = 2, maxWidth = 12, mode = "linear" } = options;
+  const span = maxValue - minValue || 1;
+  return (value: number) => {
+    if (!Number.isFinite(value)) return minWidth;
+    let u = Math.max(0, Math.min(1, (value - minValue) / span));
+    if (mode === "sqrt") u = Math.sqrt(u);
+    return lerp(minWidth, maxWidth, u);
   };
 }
 
-export function buildGradientCss(colors: (string | RGB)[]): string {
-  const stops = (
-    colors.length ? colors : ["#00aa00", "#ffff00", "#ffa500", "#ff0000"]
-  ).map(parseColor);
+export interface GradientScale extends ColorScaleOptions {
+  minValue: number;
+  maxValue: number;
+}
+
+// angleDeg: 90 = left->right (legend), 0 = bottom->top (value axis of a chart).
+// Without `scale` the colors are spread evenly; with it the gradient follows
+// the scale's stops, mode and classes over [minValue, maxValue].
+export function buildGradientCss(
+  colors: ColorInput[] | PaletteName,
+  angleDeg = 90,
+  scale?: GradientScale
+): string {
+  if (scale) {
+    return colorScaleToCss(
+      scale.minValue,
+      scale.maxValue,
+      { ...scale, colors },
+      angleDeg
+    );
+  }
+  const stops = resolveColors(colors).map(toRgba);
   const n = stops.length;
   const parts = stops.map((c, idx) => {
-    const pct = (idx / (n - 1)) * 100;
-    const hex = `#${c[0].toString(16).padStart(2, "0")}${c[1]
-      .toString(16)
-      .padStart(2, "0")}${c[2].toString(16).padStart(2, "0")}`;
-    return `${hex} ${pct.toFixed(1)}%`;
+    const pct = n > 1 ? (idx / (n - 1)) * 100 : 0;
+    return `${rgbToHex(c)} ${pct.toFixed(1)}%`;
   });
-  return `linear-gradient(90deg, ${parts.join(", ")})`;
+  if (n === 1) parts.push(`${rgbToHex(stops[0])} 100%`);
+  return `linear-gradient(${angleDeg}deg, ${parts.join(", ")})`;
 }
 
 export interface BuildSegmentsOptions {
   subdivisions: number;
-  minSpeedOverride?: number; // forces min for coloring
-  maxSpeedOverride?: number; // forces max for coloring
+  metric?: Metric; // value used for coloring (default "speed")
+  minValueOverride?: number; // forces min for coloring
+  maxValueOverride?: number; // forces max for coloring
+  gaps?: GapRules; // break the line instead of interpolating across gaps
+  interpolation?: "linear" | "geodesic"; // lon/lat lerp or great-circle slerp (default linear)
+  maxSegmentKm?: number; // extra subdivisions so no piece is longer than this
+  viewport?: FitBoundsOptions; // screen size / padding for initialViewState
+  widthMetric?: Metric; // second value, stored as Segment.widthValue
+  onProgress?: (fraction: number) => void; // 0..1, called every few thousand points
+}
+
+const PROGRESS_STEP = 8192; // points between onProgress calls
+
+function gapReason(
+  a: Point,
+  b: Point,
+  rules: GapRules
+): TrackGap["reason"] | null {
+  const dt = b.timestamp - a.timestamp;
+  if (rules.maxTimeGapMs != null && dt > rules.maxTimeGapMs) return "time";
+  if (rules.maxDistanceMeters == null && rules.maxSpeedKmh == null) return null;
+  const km = haversineKm([a.lon, a.lat], [b.lon, b.lat]);
+  if (rules.maxDistanceMeters != null && km * 1000 > rules.maxDistanceMeters)
+    return "distance";
+  if (
+    rules.maxSpeedKmh != null &&
+    dt > 0 &&
+    km / (dt / 3_600_000) > rules.maxSpeedKmh
+  )
+    return "speed";
+  return null;
+}
+
+// Splits points into parts wherever a gap rule is violated
+export function splitTrackAtGaps(points: Point[], rules: GapRules): Point[][] {
+  const parts: Point[][] = [];
+  let current: Point[] = [];
+  for (let i = 0; i < points.length; i++) {
+    if (i > 0 && gapReason(points[i - 1], points[i], rules)) {
+      parts.push(current);
+      current = [];
+    }
+    current.push(points[i]);
+  }
+  if (current.length) parts.push(current);
+  return parts;
+}
+
+// Drops physically impossible fixes: a point reached from the last accepted
+// fix faster than maxSpeedKmh is rejected when the following fix is again
+// reachable from the last accepted one (a single GPS spike). Returns the
+// kept points and the indices of rejected ones.
+export function filterOutliers(
+  points: Point[],
+  maxSpeedKmh: number
+): { points: Point[]; rejected: number[] } {
+  const impliedSpeed = (a: Point, b: Point) => {
+    const h = (b.timestamp - a.timestamp) / 3_600_000;
+    const km = haversineKm([a.lon, a.lat], [b.lon, b.lat]);
+    return h > 0 ? km / h : km > 0 ? Infinity : 0;
+  };
+  const kept: Point[] = [];
+  const rejected: number[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+    const last = kept[kept.length - 1];
+    if (last && impliedSpeed(last, p) > maxSpeedKmh) {
+      const next = points[i + 1];
+      if (!next || impliedSpeed(last, next) <= maxSpeedKmh) {
+        rejected.push(i);
+        continue;
+      }
+    }
+    kept.push(p);
+  }
+  return { points: kept, rejected };
+}
+
+// Segments (or the gap) between two consecutive points; `pairIndex` is the
+// index of `a` and goes into the segment ids. Longitudes must already be
+// unwrapped (see unwrapLongitudes).
+export function buildPairSegments(
+  a: Point,
+  b: Point,
+  pairIndex: number,
+  options: BuildSegmentsOptions,
+  getValue: ValueAccessor = resolveMetric(options.metric),
+  getWidthValue: ValueAccessor | null = options.widthMetric
+    ? resolveMetric(options.widthMetric)
+    : null
+): { segments: Segment[]; gap: TrackGap | null } {
+  const reason = options.gaps ? gapReason(a, b, options.gaps) : null;
+  if (reason) {
+    const gap: TrackGap = {
+      index: pairIndex,
+      path: [
+        [a.lon, a.lat],
+        [b.lon, b.lat],
+      ],
+      time0: a.timestamp,
+      time1: b.timestamp,
+      reason,
+    };
+    return { segments: [], gap };
+  }
+  const geodesic = options.interpolation === "geodesic";
+  const va = getValue(a);
+  const vb = getValue(b);
+  const wa = getWidthValue?.(a) ?? NaN;
+  const wb = getWidthValue?.(b) ?? NaN;
+  const pa: [number, number] = [a.lon, a.lat];
+  const pb: [number, number] = [b.lon, b.lat];
+  const n = options.maxSegmentKm
+    ? Math.max(
+        options.subdivisions,
+        Math.ceil(haversineKm(pa, pb) / options.maxSegmentKm)
+      )
+    : options.subdivisions;
+  const segments: Segment[] = [];
+  for (let s = 0; s < n; s++) {
+    const t0 = s / n;
+    const t1 = (s + 1) / n;
+    const [lon0, lat0] = geodesic
+      ? interpolateGreatCircle(pa, pb, t0)
+      : [lerp(a.lon, b.lon, t0), lerp(a.lat, b.lat, t0)];
+    const [lon1, lat1] = geodesic
+      ? interpolateGreatCircle(pa, pb, t1)
+      : [lerp(a.lon, b.lon, t1), lerp(a.lat, b.lat, t1)];
+    const value0 = lerp(va, vb, t0);
+    const value1 = lerp(va, vb, t1);
+    const speed0 = lerp(a.speed, b.speed, t0);
+    const speed1 = lerp(a.speed, b.speed, t1);
+    const time0 = lerp(a.timestamp, b.timestamp, t0);
+    const time1 = lerp(a.timestamp, b.timestamp, t1);
+    const seg: Segment = {
+      id: `${pairIndex}-${s}`,
+      path: [
+        [lon0, lat0],
+        [lon1, lat1],
+      ],
+      value: (value0 + value1) / 2,
+      speed: (speed0 + speed1) / 2,
+      timestamp: (time0 + time1) / 2,
+      value0,
+      value1,
+      speed0,
+      speed1,
+      time0,
+      time1,
+    };
+    if (getWidthValue) seg.widthValue = lerp(wa, wb, (t0 + t1) / 2);
+    segments.push(seg);
+  }
+  return { segments, gap: null };
 }
 
 export function buildSegments(
   points: Point[],
   options: BuildSegmentsOptions
 ): BuildResult {
-  const { subdivisions, minSpeedOverride, maxSpeedOverride } = options;
+  const { minValueOverride, maxValueOverride } = options;
+  const getValue = resolveMetric(options.metric);
+  const getWidthValue = options.widthMetric
+    ? resolveMetric(options.widthMetric)
+    : null;
   if (!points || points.length < 2) {
-    return {
-      segments: [],
-      minSpeed: minSpeedOverride ?? 0,
-      maxSpeed: maxSpeedOverride ?? 1,
-      initialViewState: {
-        longitude: 0,
-        latitude: 0,
-        zoom: 2,
-        pitch: 0,
-        bearing: 0,
-      },
-      gridIndex: {},
-      gridSize: 0.05,
-    };
+    return emptyBuildResult(minValueOverride, maxValueOverride);
   }
-  let minS = Infinity;
-  let maxS = -Infinity;
+  // continuous longitudes so no segment spans the whole world
+  points = unwrapLongitudes(points);
+  let minV = Infinity;
+  let maxV = -Infinity;
   const segs: Segment[] = [];
+  const gaps: TrackGap[] = [];
   for (let i = 0; i < points.length - 1; i++) {
-    const a = points[i];
-    const b = points[i + 1];
-    for (let s = 0; s < subdivisions; s++) {
-      const t0 = s / subdivisions;
-      const t1 = (s + 1) / subdivisions;
-      const lon0 = lerp(a.lon, b.lon, t0);
-      const lat0 = lerp(a.lat, b.lat, t0);
-      const lon1 = lerp(a.lon, b.lon, t1);
-      const lat1 = lerp(a.lat, b.lat, t1);
-      const speed0 = lerp(a.speed, b.speed, t0);
-      const speed1 = lerp(a.speed, b.speed, t1);
-      const segSpeed = (speed0 + speed1) / 2;
-      const time0 = lerp(a.timestamp, b.timestamp, t0);
-      const time1 = lerp(a.timestamp, b.timestamp, t1);
-      if (Number.isFinite(segSpeed)) {
-        minS = Math.min(minS, segSpeed);
-        maxS = Math.max(maxS, segSpeed);
+    if (options.onProgress && i % PROGRESS_STEP === 0)
+      options.onProgress(i / (points.length - 1));
+    const pair = buildPairSegments(
+      points[i],
+      points[i + 1],
+      i,
+      options,
+      getValue,
+      getWidthValue
+    );
+    if (pair.gap) gaps.push(pair.gap);
+    for (const seg of pair.segments) {
+      if (Number.isFinite(seg.value)) {
+        minV = Math.min(minV, seg.value);
+        maxV = Math.max(maxV, seg.value);
       }
-      segs.push({
-        id: `${i}-${s}`,
-        path: [
-          [lon0, lat0],
-          [lon1, lat1],
-        ],
-        speed: segSpeed,
-        timestamp: (time0 + time1) / 2,
-        speed0,
-        speed1,
-        time0,
-        time1,
-      });
+      segs.push(seg);
     }
   }
-  if (!Number.isFinite(minS)) minS = 0;
-  if (!Number.isFinite(maxS)) maxS = 1;
-  const effMin = minSpeedOverride ?? minS;
-  const effMax = maxSpeedOverride ?? maxS;
+  if (!Number.isFinite(minV)) minV = 0;
+  if (!Number.isFinite(maxV)) maxV = 1;
+  const effMin = minValueOverride ?? minV;
+  const effMax = maxValueOverride ?? maxV;
 
-  // Bounding box for initial view
+  const bbox = boundsOfSegments(segs);
+  return {
+    segments: segs,
+    minValue: effMin,
+    maxValue: effMax,
+    initialViewState: viewStateForBbox(bbox, options.viewport),
+    index: createSegmentIndex(segs, undefined, options.interpolation),
+    bbox,
+    gaps,
+    widthRange: widthRangeOf(segs),
+  };
+}
+
+function emptyBuildResult(minValue?: number, maxValue?: number): BuildResult {
+  return {
+    segments: [],
+    minValue: minValue ?? 0,
+    maxValue: maxValue ?? 1,
+    initialViewState: viewStateForBbox(null),
+    index: createSegmentIndex([]),
+    bbox: null,
+    gaps: [],
+    widthRange: null,
+  };
+}
+
+// Finite widthValue range of the segments; null without a width metric
+export function widthRangeOf(segs: Segment[]): [number, number] | null {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const s of segs) {
+    const w = s.widthValue;
+    if (w === undefined || !Number.isFinite(w)) continue;
+    if (w < min) min = w;
+    if (w > max) max = w;
+  }
+  return min <= max ? [min, max] : null;
+}
+
+function boundsOfSegments(segs: Segment[]): Bbox | null {
+  if (!segs.length) return null;
   let minLon = Infinity,
     maxLon = -Infinity,
     minLat = Infinity,
     maxLat = -Infinity;
-  for (const p of points) {
-    if (p.lon < minLon) minLon = p.lon;
-    if (p.lon > maxLon) maxLon = p.lon;
-    if (p.lat < minLat) minLat = p.lat;
-    if (p.lat > maxLat) maxLat = p.lat;
+  for (const s of segs) {
+    for (const [lon, lat] of s.path) {
+      if (lon < minLon) minLon = lon;
+      if (lon > maxLon) maxLon = lon;
+      if (lat < minLat) minLat = lat;
+      if (lat > maxLat) maxLat = lat;
+    }
+  }
+  return [minLon, minLat, maxLon, maxLat];
+}
+
+// Initial view for a bounding box
+function viewStateForBbox(
+  bbox: Bbox | null,
+  viewport?: FitBoundsOptions
+): ViewState {
+  if (!bbox) {
+    return { longitude: 0, latitude: 0, zoom: 2, pitch: 0, bearing: 0 };
   }
-  const centerLon = (minLon + maxLon) / 2;
-  const centerLat = (minLat + maxLat) / 2;
-  const span = Math.max(maxLon - minLon, maxLat - minLat);
-  let zoom = 3;
-  if (span < 0.8) zoom = 5;
-  if (span < 0.4) zoom = 6;
-  if (span < 0.2) zoom = 7;
-  if (span < 0.1) zoom = 8;
-  if (span < 0.05) zoom = 9;
-  if (span < 0.025) zoom = 10;
-  const initialViewState = {
-    longitude: centerLon,
-    latitude: centerLat,
+  return fitBounds(bbox, viewport);
+}
+
+// ---- Camera ----
+
+export interface FitBoundsOptions {
+  width?: number; // viewport px (default 800)
+  height?: number; // viewport px (default 600)
+  // px kept free around the box (default 40)
+  padding?:
+    | number
+    | { top: number; right: number; bottom: number; left: number };
+  minZoom?: number; // default 0
+  maxZoom?: number; // default 18
+}
+
+const TILE_SIZE = 512; // MapLibre / deck.gl world size at zoom 0
+const MAX_MERCATOR_LAT = 85.051129;
+
+// Web Mercator world coordinates in [0, 1] (y grows southwards)
+const mercatorX = (lon: number) => (lon + 180) / 360;
+function mercatorY(lat: number) {
+  const phi =
+    (Math.max(-MAX_MERCATOR_LAT, Math.min(MAX_MERCATOR_LAT, lat)) * Math.PI) /
+    180;
+  return (1 - Math.log(Math.tan(Math.PI / 4 + phi / 2)) / Math.PI) / 2;
+}
+export function mercatorXY(lon: number, lat: number): [number, number] {
+  return [mercatorX(lon), mercatorY(lat)];
+}
+function mercatorLat(y: number) {
+  return (
+    ((2 * Math.atan(Math.exp(Math.PI * (1 - 2 * y))) - Math.PI / 2) * 180) /
+    Math.PI
+  );
+}
+
+// Center and zoom that fit a bbox into a viewport of the given size, like
+// MapLibre's fitBounds: the box is centered inside the padded area.
+export function fitBounds(
+  bbox: Bbox,
+  options: FitBoundsOptions = {}
+): ViewState {
+  const {
+    width = 800,
+    height = 600,
+    padding = 40,
+    minZoom = 0,
+    maxZoom = 18,
+  } = options;
+  const pad =
+    typeof padding === "number"
+      ? { top: padding, right: padding, bottom: padding, left: padding }
+      : padding;
+  const [w, s, e, n] = bbox;
+  const x0 = mercatorX(w);
+  const x1 = mercatorX(e < w ? e + 360 : e);
+  const y0 = mercatorY(n);
+  const y1 = mercatorY(s);
+  const innerW = Math.max(1, width - pad.left - pad.right);
+  const innerH = Math.max(1, height - pad.top - pad.bottom);
+  // a single point fits at any zoom -> maxZoom
+  const zoom = Math.max(
+    minZoom,
+    Math.min(
+      maxZoom,
+      Math.log2(
+        Math.min(
+          innerW / ((x1 - x0) * TILE_SIZE),
+          innerH / ((y1 - y0) * TILE_SIZE)
+        )
+      )
+    )
+  );
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const cx = (x0 + x1) / 2 + (pad.right - pad.left) / 2 / scale;
+  const cy = (y0 + y1) / 2 + (pad.bottom - pad.top) / 2 / scale;
+  return {
+    longitude: wrapLongitude(cx * 360 - 180),
+    latitude: mercatorLat(cy),
     zoom,
     pitch: 0,
     bearing: 0,
   };
+}
 
-  // Spatial grid index (midpoints)
-  const gridSize = 0.02;
-  const gridIndex: Record<string, Segment[]> = {};
-  for (const s of segs) {
-    const [[lon0, lat0], [lon1, lat1]] = s.path;
-    const midLon = (lon0 + lon1) / 2;
-    const midLat = (lat0 + lat1) / 2;
-    const key = `${Math.floor(midLon / gridSize)}_${Math.floor(
-      midLat / gridSize
-    )}`;
-    (gridIndex[key] ||= []).push(s);
+// Tightest bbox around unordered [lon, lat] points (e.g. cluster leaves); it
+// crosses the antimeridian (east > 180) when that is narrower
+export function boundsOfCoordinates(coords: [number, number][]): Bbox | null {
+  if (!coords.length) return null;
+  const lons = coords.map(([lon]) => wrapLongitude(lon)).sort((a, b) => a - b);
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+  for (const [, lat] of coords) {
+    minLat = Math.min(minLat, lat);
+    maxLat = Math.max(maxLat, lat);
+  }
+  // leave the widest empty longitude gap outside the box
+  let gap = lons[0] + 360 - lons[lons.length - 1];
+  let west = lons[0];
+  let east = lons[lons.length - 1];
+  for (let i = 1; i < lons.length; i++) {
+    if (lons[i] - lons[i - 1] > gap) {
+      gap = lons[i] - lons[i - 1];
+      west = lons[i];
+      east = lons[i - 1] + 360;
+    }
   }
+  return [west, minLat, east, maxLat];
+}
 
-  return {
-    segments: segs,
-    minSpeed: effMin,
-    maxSpeed: effMax,
-    initialViewState,
-    gridIndex,
-    gridSize,
-  };
+// Longitude in [-180, 180)
+export function wrapLongitude(lon: number) {
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+// Shifts longitudes by multiples of 360 so consecutive fixes never jump more
+// than 180 degrees; tracks crossing the antimeridian go past +-180 instead.
+export function unwrapLongitudes(points: Point[]): Point[] {
+  let out: Point[] | null = null;
+  let prevLon = points[0]?.lon ?? 0;
+  for (let i = 1; i < points.length; i++) {
+    const lon = prevLon + wrapLongitude(points[i].lon - prevLon);
+    if (lon !== points[i].lon) {
+      out ||= points.slice();
+      out[i] = { ...points[i], lon };
+    }
+    prevLon = lon;
+  }
+  return out ?? points;
+}
+
+// Great-circle distance between [lon, lat] pairs
+const EARTH_RADIUS_KM = 6371;
+
+export function haversineKm(a: [number, number], b: [number, number]) {
+  const R = EARTH_RADIUS_KM;
+  const dLat = ((b[1] - a[1]) * Math.PI) / 180;
+  const dLon = ((b[0] - a[0]) * Math.PI) / 180;
+  const lat1 = (a[1] * Math.PI) / 180;
+  const lat2 = (b[1] * Math.PI) / 180;
+  const sinDLat = Math.sin(dLat / 2);
+  const sinDLon = Math.sin(dLon / 2);
+  const h =
+    sinDLat * sinDLat + Math.cos(lat1) * Math.cos(lat2) * sinDLon * sinDLon;
+  return 2 * R * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Point at fraction t along the great circle from a to b ([lon, lat], slerp)
+export function interpolateGreatCircle(
+  a: [number, number],
+  b: [number, number],
+  t: number
+): [number, number] {
+  const toRad = Math.PI / 180;
+  const lat1 = a[1] * toRad;
+  const lon1 = a[0] * toRad;
+  const lat2 = b[1] * toRad;
+  const lon2 = b[0] * toRad;
+  const delta = haversineKm(a, b) / EARTH_RADIUS_KM;
+  if (delta < 1e-12) return [lerp(a[0], b[0], t), lerp(a[1], b[1], t)];
+  const sinDelta = Math.sin(delta);
+  const wa = Math.sin((1 - t) * delta) / sinDelta;
+  const wb = Math.sin(t * delta) / sinDelta;
+  const x =
+    wa * Math.cos(lat1) * Math.cos(lon1) + wb * Math.cos(lat2) * Math.cos(lon2);
+  const y =
+    wa * Math.cos(lat1) * Math.sin(lon1) + wb * Math.cos(lat2) * Math.sin(lon2);
+  const z = wa * Math.sin(lat1) + wb * Math.sin(lat2);
+  // keep the longitude on the same side of the antimeridian as the inputs
+  const ref = lerp(a[0], b[0], t);
+  return [
+    ref + wrapLongitude(Math.atan2(y, x) / toRad - ref),
+    Math.atan2(z, Math.sqrt(x * x + y * y)) / toRad,
+  ];
+}
+
+// Fraction (0..1) of the great circle a->b closest to p (along-track distance)
+function projectOnGreatCircle(
+  p: [number, number],
+  a: [number, number],
+  b: [number, number]
+): number {
+  const d12 = haversineKm(a, b) / EARTH_RADIUS_KM;
+  if (d12 < 1e-12) return 0;
+  const d13 = haversineKm(a, p) / EARTH_RADIUS_KM;
+  const toRad = Math.PI / 180;
+  const dTheta = (bearingDeg(a, p) - bearingDeg(a, b)) * toRad;
+  const xt = Math.asin(Math.sin(d13) * Math.sin(dTheta));
+  const cosXt = Math.cos(xt);
+  let at = Math.acos(Math.max(-1, Math.min(1, Math.cos(d13) / (cosXt || 1))));
+  if (Math.cos(dTheta) < 0) at = -at;
+  return Math.max(0, Math.min(1, at / d12));
 }
 
 // Meters per degree approximator
@@ -248,50 +640,550 @@ function metersPerDegree(lat: number) {
   return { mPerDegLat, mPerDegLon };
 }
 
+export interface SegmentMatch extends NearestResult {
+  segmentIndex: number; // position in the indexed segments
+}
+
+export interface SegmentIndex {
+  nearest: (
+    lon: number,
+    lat: number,
+    maxMeters?: number
+  ) => SegmentMatch | null;
+  kNearest: (
+    lon: number,
+    lat: number,
+    k: number,
+    maxMeters?: number
+  ) => SegmentMatch[];
+  withinRadius: (lon: number, lat: number, meters: number) => SegmentMatch[];
+  search: (bbox: Bbox) => Segment[]; // segments whose bbox intersects
+  data: SpatialIndexData; // tree arrays, see createSegmentIndex
+}
+
+// Fraction of a lon/lat straight segment closest to p (locally equirectangular)
+function projectOnLine(
+  p: [number, number],
+  a: [number, number],
+  b: [number, number]
+): number {
+  const k = Math.cos((((a[1] + b[1]) / 2) * Math.PI) / 180);
+  const dx = (b[0] - a[0]) * k;
+  const dy = b[1] - a[1];
+  const len2 = dx * dx + dy * dy;
+  if (len2 < 1e-24) return 0;
+  const t = ((p[0] - a[0]) * k * dx + (p[1] - a[1]) * dy) / len2;
+  return Math.max(0, Math.min(1, t));
+}
+
+// Latitude range of the great-circle arc a -> b. Arcs bulge poleward, so it
+// can exceed the endpoints' latitudes (the box of the endpoints would then
+// not bound the arc).
+function greatCircleLatRange(
+  a: [number, number],
+  b: [number, number]
+): [number, number] {
+  const toRad = Math.PI / 180;
+  const vec = ([lon, lat]: [number, number]) => [
+    Math.cos(lat * toRad) * Math.cos(lon * toRad),
+    Math.cos(lat * toRad) * Math.sin(lon * toRad),
+    Math.sin(lat * toRad),
+  ];
+  const cross = (u: number[], v: number[]) => [
+    u[1] * v[2] - u[2] * v[1],
+    u[2] * v[0] - u[0] * v[2],
+    u[0] * v[1] - u[1] * v[0],
+  ];
+  const dot = (u: number[], v: number[]) =>
+    u[0] * v[0] + u[1] * v[1] + u[2] * v[2];
+  let lo = Math.min(a[1], b[1]);
+  let hi = Math.max(a[1], b[1]);
+  const va = vec(a);
+  const vb = vec(b);
+  const n = cross(va, vb);
+  const n2 = dot(n, n);
+  if (n2 < 1e-24) return [lo, hi];
+  // northernmost point of the whole circle: the pole projected onto its plane
+  const top = [
+    (-n[2] * n[0]) / n2,
+    (-n[2] * n[1]) / n2,
+    1 - (n[2] * n[2]) / n2,
+  ];
+  const topLat = Math.asin(Math.min(1, Math.sqrt(Math.max(0, top[2])))) / toRad;
+  const onArc = (p: number[]) =>
+    dot(cross(va, p), n) >= 0 && dot(cross(p, vb), n) >= 0;
+  if (onArc(top)) hi = Math.max(hi, topLat);
+  if (onArc(top.map((c) => -c))) lo = Math.min(lo, -topLat);
+  return [lo, hi];
+}
+
+// Closest point of one segment to [lon, lat], on the line the build drew
+function matchSegment(
+  lon: number,
+  lat: number,
+  s: Segment,
+  segmentIndex: number,
+  interpolation: SegmentInterpolation
+): SegmentMatch {
+  const [p1, p2] = s.path;
+  // query in the same world copy as the segment
+  const q: [number, number] = [p1[0] + wrapLongitude(lon - p1[0]), lat];
+  const t =
+    interpolation === "geodesic"
+      ? projectOnGreatCircle(q, p1, p2)
+      : projectOnLine(q, p1, p2);
+  const [projLon, projLat] = pointOnSegment(s, t, interpolation);
+  return {
+    lon: projLon,
+    lat: projLat,
+    value: s.value0 + (s.value1 - s.value0) * t,
+    speed: s.speed0 + (s.speed1 - s.speed0) * t,
+    timestamp: s.time0 + (s.time1 - s.time0) * t,
+    distMeters: haversineKm(q, [projLon, projLat]) * 1000,
+    segmentIndex,
+  };
+}
+
+// Packed R-tree over segment bounding boxes; queries are in meters. Pass the
+// `data` of an index built elsewhere (e.g. in a worker) to skip building, and
+// the build's interpolation so matches lie on the drawn line.
+export function createSegmentIndex(
+  segments: Segment[],
+  data?: SpatialIndexData,
+  interpolation: SegmentInterpolation = "linear"
+): SegmentIndex {
+  let tree: SpatialIndex;
+  if (data) {
+    tree = spatialIndexFromData(data);
+  } else {
+    const boxes = new Float64Array(segments.length * 4);
+    segments.forEach(({ path: [a, b] }, i) => {
+      const [minY, maxY] =
+        interpolation === "geodesic"
+          ? greatCircleLatRange(a, b)
+          : [Math.min(a[1], b[1]), Math.max(a[1], b[1])];
+      boxes[4 * i] = Math.min(a[0], b[0]);
+      boxes[4 * i + 1] = minY;
+      boxes[4 * i + 2] = Math.max(a[0], b[0]);
+      boxes[4 * i + 3] = maxY;
+    });
+    tree = createSpatialIndex(boxes);
+  }
+  const match = (lon: number, lat: number, i: number) =>
+    matchSegment(lon, lat, segments[i], i, interpolation);
+  const query = (lon: number, lat: number, k?: number, maxMeters?: number) =>
+    tree
+      .neighbors(lon, lat, {
+        k,
+        maxMeters,
+        distance: (i) => match(lon, lat, i).distMeters,
+      })
+      .map(({ id }) => match(lon, lat, id));
+  return {
+    nearest: (lon, lat, maxMeters) => query(lon, lat, 1, maxMeters)[0] ?? null,
+    kNearest: (lon, lat, k, maxMeters) => query(lon, lat, k, maxMeters),
+    withinRadius: (lon, lat, meters) => query(lon, lat, undefined, meters),
+    search: (bbox) =>
+      tree
+        .search(bbox)
+        .sort((a, b) => a - b)
+        .map((i) => segments[i]),
+    data: tree.data,
+  };
+}
+
+// Nearest point on the track; without an index every segment is checked
+// (pass the build's interpolation then)
 export function findNearestPointOnTrack(
   lon: number,
   lat: number,
   segments: Segment[],
-  gridIndex?: Record<string, Segment[]>,
-  gridSize?: number
+  index?: SegmentIndex,
+  maxMeters = Infinity,
+  interpolation: SegmentInterpolation = "linear"
 ): NearestResult | null {
-  if (!segments.length) return null;
-  let candidates: Segment[] = segments;
-  if (gridIndex && gridSize) {
-    const gx = Math.floor(lon / gridSize);
-    const gy = Math.floor(lat / gridSize);
-    const set = new Set<Segment>();
-    for (let dx = -1; dx <= 1; dx++) {
-      for (let dy = -1; dy <= 1; dy++) {
-        const key = `${gx + dx}_${gy + dy}`;
-        const arr = gridIndex[key];
-        if (arr) for (const seg of arr) set.add(seg);
-      }
+  if (index) return index.nearest(lon, lat, maxMeters);
+  let best: NearestResult | null = null;
+  segments.forEach((s, i) => {
+    const match = matchSegment(lon, lat, s, i, interpolation);
+    if (
+      match.distMeters <= maxMeters &&
+      (!best || match.distMeters < best.distMeters)
+    )
+      best = match;
+  });
+  return best;
+}
+
+// ---- Simplification & level of detail ----
+
+export interface SimplifyOptions {
+  toleranceMeters: number; // max perpendicular deviation of dropped points
+  metric?: Metric; // value whose extremes must survive (default "speed")
+  valueTolerance?: number; // max value deviation of dropped points (default 2% of range)
+}
+
+// Douglas–Peucker on geometry and metric value together: a point is kept if
+// dropping it would move the line more than toleranceMeters OR distort the
+// interpolated value more than valueTolerance, so speed peaks/dips survive.
+export function simplifyTrack(
+  points: Point[],
+  options: SimplifyOptions
+): Point[] {
+  const n = points.length;
+  if (n < 3 || options.toleranceMeters <= 0) return points.slice();
+  const getValue = resolveMetric(options.metric);
+  const values = points.map(getValue);
+  let valueTol = options.valueTolerance;
+  if (valueTol == null) {
+    let lo = Infinity;
+    let hi = -Infinity;
+    for (const v of values) {
+      if (!Number.isFinite(v)) continue;
+      if (v < lo) lo = v;
+      if (v > hi) hi = v;
     }
-    if (set.size) candidates = Array.from(set);
+    valueTol = hi > lo ? (hi - lo) * 0.02 : Infinity;
   }
-  let best: NearestResult | null = null;
-  for (const s of candidates) {
-    const [[x1, y1], [x2, y2]] = s.path;
-    const latRad = (((y1 + y2) / 2) * Math.PI) / 180;
+  const keep = new Uint8Array(n);
+  keep[0] = keep[n - 1] = 1;
+  const stack: [number, number][] = [[0, n - 1]];
+  while (stack.length) {
+    const [first, last] = stack.pop()!;
+    const a = points[first];
+    const b = points[last];
+    const latRad = (((a.lat + b.lat) / 2) * Math.PI) / 180;
     const { mPerDegLat, mPerDegLon } = metersPerDegree(latRad);
-    const ax = (x1 - lon) * mPerDegLon;
-    const ay = (y1 - lat) * mPerDegLat;
-    const vx = (x2 - x1) * mPerDegLon;
-    const vy = (y2 - y1) * mPerDegLat;
-    const vLen2 = vx * vx + vy * vy || 1;
-    let t = -(ax * vx + ay * vy) / vLen2;
-    t = Math.max(0, Math.min(1, t));
-    const projLon = x1 + (x2 - x1) * t;
-    const projLat = y1 + (y2 - y1) * t;
-    const dx = (projLon - lon) * mPerDegLon;
-    const dy = (projLat - lat) * mPerDegLat;
-    const dist = Math.sqrt(dx * dx + dy * dy);
-    const speed = s.speed0 + (s.speed1 - s.speed0) * t;
-    const timestamp = s.time0 + (s.time1 - s.time0) * t;
-    if (!best || dist < best.distMeters) {
-      best = { lon: projLon, lat: projLat, speed, timestamp, distMeters: dist };
+    const vx = (b.lon - a.lon) * mPerDegLon;
+    const vy = (b.lat - a.lat) * mPerDegLat;
+    const vLen2 = vx * vx + vy * vy;
+    let maxErr = 1;
+    let index = -1;
+    for (let k = first + 1; k < last; k++) {
+      const p = points[k];
+      const px = (p.lon - a.lon) * mPerDegLon;
+      const py = (p.lat - a.lat) * mPerDegLat;
+      let t = vLen2 ? (px * vx + py * vy) / vLen2 : 0;
+      t = Math.max(0, Math.min(1, t));
+      const dx = px - vx * t;
+      const dy = py - vy * t;
+      const geomErr = Math.sqrt(dx * dx + dy * dy) / options.toleranceMeters;
+      const expected = lerp(values[first], values[last], t);
+      const dv = Math.abs(values[k] - expected);
+      const valueErr = Number.isFinite(dv) ? dv / valueTol : 0;
+      const err = Math.max(geomErr, valueErr);
+      if (err > maxErr) {
+        maxErr = err;
+        index = k;
+      }
+    }
+    if (index >= 0) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
     }
   }
-  return best;
+  const out: Point[] = [];
+  for (let i = 0; i < n; i++) if (keep[i]) out.push(points[i]);
+  return out;
+}
+
+export interface LodLevel {
+  minZoom: number; // level is used from this zoom up to the next level's minZoom
+  toleranceMeters: number; // 0 = full detail
+  points: Point[];
+  result: BuildResult;
+}
+
+export interface BuildLodOptions extends BuildSegmentsOptions {
+  zooms?: number[]; // ascending level thresholds; the last one is full detail
+  pixelTolerance?: number; // simplification tolerance in screen px (default 0.75)
+  valueTolerance?: number; // see SimplifyOptions
+}
+
+// Ground resolution of Web Mercator tiles (512px) at a given zoom / latitude
+export function metersPerPixel(zoom: number, lat: number) {
+  return (78271.51696 * Math.cos((lat * Math.PI) / 180)) / Math.pow(2, zoom);
+}
+
+// Precomputes simplified tracks for each zoom threshold. All levels share the
+// full-detail min/max so colors do not shift when switching levels. Coarse
+// levels use one segment per point pair; the finest uses options.subdivisions.
+export function buildLodLevels(
+  points: Point[],
+  options: BuildLodOptions
+): LodLevel[] {
+  const {
+    zooms = [0, 4, 6, 8, 10],
+    pixelTolerance = 0.75,
+    valueTolerance,
+    onProgress,
+    ...buildOptions
+  } = options;
+  points = unwrapLongitudes(points);
+  // full detail is half the work, the simplified levels the other half
+  const full = buildSegments(points, {
+    ...buildOptions,
+    onProgress: onProgress && ((f) => onProgress(f / 2)),
+  });
+  const shared: BuildSegmentsOptions = {
+    ...buildOptions,
+    subdivisions: 1,
+    minValueOverride: full.minValue,
+    maxValueOverride: full.maxValue,
+  };
+  const refLat = full.initialViewState.latitude;
+  const coarse = zooms.slice(0, -1);
+  const levels: LodLevel[] = coarse.map((minZoom, levelIndex) => {
+    onProgress?.(0.5 + (0.5 * levelIndex) / coarse.length);
+    const toleranceMeters = metersPerPixel(minZoom, refLat) * pixelTolerance;
+    // simplify parts separately so gap endpoints are never dropped
+    const parts = buildOptions.gaps
+      ? splitTrackAtGaps(points, buildOptions.gaps)
+      : [points];
+    const simplified = parts.flatMap((part) =>
+      simplifyTrack(part, {
+        toleranceMeters,
+        metric: buildOptions.metric,
+        valueTolerance,
+      })
+    );
+    const result = buildSegments(simplified, shared);
+    // keep one camera for every level
+    result.initialViewState = full.initialViewState;
+    return { minZoom, toleranceMeters, points: simplified, result };
+  });
+  levels.push({
+    minZoom: zooms[zooms.length - 1] ?? 0,
+    toleranceMeters: 0,
+    points,
+    result: full,
+  });
+  return levels;
+}
+
+export function selectLodLevel(levels: LodLevel[], zoom: number): LodLevel {
+  let level = levels[0];
+  for (const l of levels) if (zoom >= l.minZoom) level = l;
+  return level;
+}
+
+// Segments whose bounding box touches bbox [west, south, east, north]
+export function filterSegmentsToBbox(
+  segments: Segment[],
+  bbox: [number, number, number, number]
+): Segment[] {
+  const [w, s, e, n] = bbox;
+  // west > east means the box crosses the antimeridian
+  const east = e < w ? e + 360 : e;
+  const allLon = east - w >= 360;
+  return segments.filter((seg) => {
+    const [[x1, y1], [x2, y2]] = seg.path;
+    if (Math.max(y1, y2) < s || Math.min(y1, y2) > n) return false;
+    if (allLon) return true;
+    // segment and box may sit in different world copies
+    const shift = 360 * Math.round(((x1 + x2) / 2 - (w + east) / 2) / 360);
+    const lo = Math.min(x1, x2) - shift;
+    const hi = Math.max(x1, x2) - shift;
+    return (
+      (hi >= w && lo <= east) ||
+      (hi + 360 >= w && lo + 360 <= east) ||
+      (hi - 360 >= w && lo - 360 <= east)
+    );
+  });
+}
+
+// ---- Time lookup (playback) ----
+
+export interface TrackPosition {
+  lon: number;
+  lat: number;
+  value: number;
+  speed: number;
+  timestamp: number;
+  heading: number; // degrees clockwise from north
+  segmentIndex: number;
+}
+
+// Initial bearing from a to b ([lon, lat]), degrees clockwise from north
+export function bearingDeg(a: [number, number], b: [number, number]) {
+  const lat1 = (a[1] * Math.PI) / 180;
+  const lat2 = (b[1] * Math.PI) / 180;
+  const dLon = ((b[0] - a[0]) * Math.PI) / 180;
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+// Index of the segment covering timestamp (segments are in time order);
+// clamps to the first / last segment outside the track's time range.
+export function findSegmentIndexAtTime(
+  segments: Segment[],
+  timestamp: number
+): number {
+  let lo = 0;
+  let hi = segments.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (segments[mid].time1 < timestamp) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+type SegmentInterpolation = BuildSegmentsOptions["interpolation"];
+
+// Point at fraction t of a segment, along the same line the build drew
+function pointOnSegment(
+  s: Segment,
+  t: number,
+  interpolation: SegmentInterpolation
+): [number, number] {
+  const [a, b] = s.path;
+  return interpolation === "geodesic"
+    ? interpolateGreatCircle(a, b, t)
+    : [lerp(a[0], b[0], t), lerp(a[1], b[1], t)];
+}
+
+// Reverse of findNearestPointOnTrack: position on the track at a time.
+// Pass the build's interpolation so the position stays on the drawn line.
+export function interpolateAtTime(
+  segments: Segment[],
+  timestamp: number,
+  interpolation: SegmentInterpolation = "linear"
+): TrackPosition | null {
+  if (!segments.length || !Number.isFinite(timestamp)) return null;
+  const i = findSegmentIndexAtTime(segments, timestamp);
+  const s = segments[i];
+  const span = s.time1 - s.time0;
+  let t = span > 0 ? (timestamp - s.time0) / span : 0;
+  t = Math.max(0, Math.min(1, t));
+  const [lon, lat] = pointOnSegment(s, t, interpolation);
+  return {
+    lon,
+    lat,
+    value: lerp(s.value0, s.value1, t),
+    speed: lerp(s.speed0, s.speed1, t),
+    timestamp: lerp(s.time0, s.time1, t),
+    // on a great circle the heading changes along the segment
+    heading:
+      interpolation === "geodesic" && t < 1
+        ? bearingDeg([lon, lat], s.path[1])
+        : bearingDeg(s.path[0], s.path[1]),
+    segmentIndex: i,
+  };
+}
+
+// Sub-segment between fractions u0..u1 of s (values/times interpolated)
+export function cutSegment(
+  s: Segment,
+  u0: number,
+  u1: number,
+  interpolation: SegmentInterpolation = "linear"
+): Segment {
+  const value0 = lerp(s.value0, s.value1, u0);
+  const value1 = lerp(s.value0, s.value1, u1);
+  const speed0 = lerp(s.speed0, s.speed1, u0);
+  const speed1 = lerp(s.speed0, s.speed1, u1);
+  const time0 = lerp(s.time0, s.time1, u0);
+  const time1 = lerp(s.time0, s.time1, u1);
+  return {
+    id: `${s.id}:${u0.toFixed(4)}-${u1.toFixed(4)}`,
+    path: [
+      pointOnSegment(s, u0, interpolation),
+      pointOnSegment(s, u1, interpolation),
+    ],
+    value: (value0 + value1) / 2,
+    speed: (speed0 + speed1) / 2,
+    timestamp: (time0 + time1) / 2,
+    value0,
+    value1,
+    speed0,
+    speed1,
+    time0,
+    time1,
+    ...(s.widthValue !== undefined && { widthValue: s.widthValue }),
+  };
+}
+
+// Splits segments into the part driven before timestamp and the rest,
+// cutting the segment that contains timestamp.
+export function splitSegmentsAtTime(
+  segments: Segment[],
+  timestamp: number,
+  interpolation: SegmentInterpolation = "linear"
+): { driven: Segment[]; remaining: Segment[] } {
+  if (!segments.length) return { driven: [], remaining: [] };
+  if (timestamp <= segments[0].time0)
+    return { driven: [], remaining: segments };
+  const last = segments[segments.length - 1];
+  if (timestamp >= last.time1) return { driven: segments, remaining: [] };
+  const i = findSegmentIndexAtTime(segments, timestamp);
+  const s = segments[i];
+  const span = s.time1 - s.time0;
+  // inside a gap timestamp falls before s: split between whole segments
+  const u = span > 0 ? Math.max(0, (timestamp - s.time0) / span) : 0;
+  const driven = segments.slice(0, i);
+  const remaining = segments.slice(i + 1);
+  if (u > 0) driven.push(u < 1 ? cutSegment(s, 0, u, interpolation) : s);
+  if (u < 1) remaining.unshift(u > 0 ? cutSegment(s, u, 1, interpolation) : s);
+  return { driven, remaining };
+}
+
+// ---- Time window ----
+
+export interface SliceByTimeOptions {
+  minValueOverride?: number; // keep a fixed color range instead of the slice's
+  maxValueOverride?: number;
+  viewport?: FitBoundsOptions; // see BuildSegmentsOptions
+  interpolation?: BuildSegmentsOptions["interpolation"]; // as in the build
+}
+
+// Restricts a build result to [startTime, endTime]: segments crossing the
+// window edges are cut exactly there; min/max, bbox, view and grid index are
+// recomputed for the slice.
+export function sliceBuildResultByTime(
+  result: BuildResult,
+  startTime: number,
+  endTime: number,
+  options: SliceByTimeOptions = {}
+): BuildResult {
+  const { minValueOverride, maxValueOverride, interpolation } = options;
+  const { segments } = result;
+  if (!segments.length || endTime <= startTime) {
+    return emptyBuildResult(minValueOverride, maxValueOverride);
+  }
+  const first = findSegmentIndexAtTime(segments, startTime);
+  const out: Segment[] = [];
+  let minV = Infinity;
+  let maxV = -Infinity;
+  for (let i = first; i < segments.length; i++) {
+    const s = segments[i];
+    if (s.time0 >= endTime) break;
+    if (s.time1 <= startTime) continue;
+    const span = s.time1 - s.time0;
+    const u0 = span > 0 ? Math.max(0, (startTime - s.time0) / span) : 0;
+    const u1 = span > 0 ? Math.min(1, (endTime - s.time0) / span) : 1;
+    const seg = u0 > 0 || u1 < 1 ? cutSegment(s, u0, u1, interpolation) : s;
+    if (Number.isFinite(seg.value)) {
+      minV = Math.min(minV, seg.value);
+      maxV = Math.max(maxV, seg.value);
+    }
+    out.push(seg);
+  }
+  if (!out.length) return emptyBuildResult(minValueOverride, maxValueOverride);
+  if (!Number.isFinite(minV)) minV = 0;
+  if (!Number.isFinite(maxV)) maxV = 1;
+  const bbox = boundsOfSegments(out);
+  return {
+    segments: out,
+    minValue: minValueOverride ?? minV,
+    maxValue: maxValueOverride ?? maxV,
+    initialViewState: viewStateForBbox(bbox, options.viewport),
+    index: createSegmentIndex(out, undefined, interpolation),
+    bbox,
+    gaps: result.gaps.filter((g) => g.time0 >= startTime && g.time1 <= endTime),
+    widthRange: widthRangeOf(out),
+  };
 }
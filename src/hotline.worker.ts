@@ -0,0 +1,122 @@
+// Worker side of hotlineWorker.ts: runs builds and holds a cluster index.
+// Every message carries the request id; builds report progress under it.
+
+import { buildLodLevels, buildSegments } from "./hotline";
+import {
+  buildClusterIndex,
+  composeClusterRenderable,
+  getClusterBbox,
+  getClusterLeaves,
+  matchClusterParents,
+} from "./clusterUtil";
+import type { WorkerRequest, WorkerResponse } from "./hotlineWorker";
+import {
+  buildResultTransferables,
+  packBuildResult,
+  packLodLevel,
+  pointsTransferables,
+  unpackPoints,
+} from "./packedSegments";
+
+let clusterIndex: ReturnType<typeof buildClusterIndex> | null = null;
+
+const post = (msg: WorkerResponse, transfer: Transferable[] = []) =>
+  self.postMessage(msg, { transfer });
+
+function requireIndex() {
+  if (!clusterIndex) throw new Error("Cluster index is not built");
+  return clusterIndex;
+}
+
+function handle(msg: WorkerRequest, id: number) {
+  const onProgress = (fraction: number) =>
+    post({ id, type: "progress", fraction });
+  switch (msg.type) {
+    case "buildSegments": {
+      const packed = packBuildResult(
+        buildSegments(unpackPoints(msg.points), { ...msg.options, onProgress })
+      );
+      post(
+        { id, type: "result", result: packed },
+        buildResultTransferables(packed)
+      );
+      return;
+    }
+    case "buildLodLevels": {
+      const levels = buildLodLevels(unpackPoints(msg.points), {
+        ...msg.options,
+        onProgress,
+      });
+      const packed = levels.map(packLodLevel);
+      post(
+        { id, type: "result", result: packed },
+        packed.flatMap((l) => [
+          ...pointsTransferables(l.points),
+          ...buildResultTransferables(l.result),
+        ])
+      );
+      return;
+    }
+    case "buildClusterIndex":
+      // supercluster has no progress hook: start and end only
+      onProgress(0);
+      clusterIndex = buildClusterIndex(msg.points, msg.options);
+      onProgress(1);
+      post({ id, type: "result", result: null });
+      return;
+    case "getClusters":
+      post({
+        id,
+        type: "result",
+        result: composeClusterRenderable(requireIndex(), msg.bbox, msg.zoom),
+      });
+      return;
+    case "getLeaves":
+      post({
+        id,
+        type: "result",
+        result: getClusterLeaves(
+          requireIndex(),
+          msg.clusterId,
+          msg.limit,
+          msg.offset
+        ),
+      });
+      return;
+    case "getClusterBbox":
+      post({
+        id,
+        type: "result",
+        result: getClusterBbox(requireIndex(), msg.clusterId),
+      });
+      return;
+    case "getClusterExpansionZoom":
+      post({
+        id,
+        type: "result",
+        result: requireIndex().getClusterExpansionZoom(msg.clusterId),
+      });
+      return;
+    case "matchClusters":
+      post({
+        id,
+        type: "result",
+        result: matchClusterParents(
+          requireIndex(),
+          msg.parents,
+          msg.children,
+          msg.childZoom
+        ),
+      });
+      return;
+  }
+}
+
+self.onmessage = (e: MessageEvent<WorkerRequest & { id: number }>) => {
+  const { id } = e.data;
+  try {
+    handle(e.data, id);
+  } catch (err) {
+    post({ id, type: "error", message: String(err) });
+  }
+};
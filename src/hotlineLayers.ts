@@ -0,0 +1,220 @@
+// deck.gl layer factory for hotline segments: color from a color scale, width
+// constant or driven by a second metric (Segment.widthValue), an optional
+// outline casing and a selected-state highlight. The casing and faded lines
+// are drawn as one path per run of connected segments: translucent round caps
+// of per-segment paths would overlap and darken every joint. Kept apart from
+// hotline.ts so the build code has no deck.gl dependency (worker-safe).
+
+import { PathLayer } from "@deck.gl/layers";
+import type { Segment, WidthScaleOptions } from "./hotline";
+import { createWidthScale, widthRangeOf } from "./hotline";
+import type { ColorInput, ColorScale, RGBA } from "./colorScale";
+import { toRgba } from "./colorScale";
+
+export interface HotlineWidthOptions extends WidthScaleOptions {
+  minValue?: number; // width metric domain (default: range of the data)
+  maxValue?: number;
+}
+
+export interface HotlineOutlineOptions {
+  color?: ColorInput; // default semi-transparent black
+  width?: number; // added on each side, in the line's width units (default 1)
+}
+
+export interface HotlineHighlightOptions {
+  color?: ColorInput; // solid line color (default: keep the color scale)
+  widthScale?: number; // line width multiplier (default 1.5)
+  outlineColor?: ColorInput; // casing while selected (default white)
+  outlineWidth?: number; // default 2
+}
+
+export interface BuildHotlineLayersParams {
+  data: Segment[];
+  colorScale: ColorScale;
+  width?: number | HotlineWidthOptions; // constant or from widthValue (default 6)
+  widthUnits?: "pixels" | "meters" | "common"; // default pixels
+  outline?: boolean | HotlineOutlineOptions;
+  selected?: boolean; // draw with the highlight style
+  highlight?: HotlineHighlightOptions;
+  // 0..1, multiplies the line alpha (default 1). Below 1 the line is drawn
+  // per SegmentRun, which is then also the picked object.
+  opacity?: number;
+  pickable?: boolean;
+  idPrefix?: string;
+}
+
+// Connected segments (each starting where the previous one ends) as one path
+export interface SegmentRun {
+  path: [number, number][];
+  segments: Segment[];
+}
+
+const JOIN_EPSILON = 1e-9; // degrees
+
+export function segmentRuns(data: Segment[]): SegmentRun[] {
+  const runs: SegmentRun[] = [];
+  let run: SegmentRun | null = null;
+  for (const s of data) {
+    const [a, b] = s.path;
+    const end = run?.path[run.path.length - 1];
+    if (
+      run &&
+      end &&
+      Math.abs(end[0] - a[0]) < JOIN_EPSILON &&
+      Math.abs(end[1] - a[1]) < JOIN_EPSILON
+    ) {
+      run.path.push(b);
+      run.segments.push(s);
+    } else {
+      run = { path: [a, b], segments: [s] };
+      runs.push(run);
+    }
+  }
+  return runs;
+}
+
+// Per-vertex widths of a run: the mean of the segments meeting at a vertex
+function runWidths(run: SegmentRun, getWidth: (d: Segment) => number) {
+  const { segments } = run;
+  return run.path.map((_, k) => {
+    const prev = segments[k - 1];
+    const next = segments[k];
+    if (!prev) return getWidth(next);
+    if (!next) return getWidth(prev);
+    return (getWidth(prev) + getWidth(next)) / 2;
+  });
+}
+
+// Metric value at each vertex of a run (segment endpoints)
+const runValues = (run: SegmentRun) => [
+  run.segments[0].value0,
+  ...run.segments.map((s) => s.value1),
+];
+
+const DEFAULT_OUTLINE: RGBA = [0, 0, 0, 150];
+const DEFAULT_HIGHLIGHT_OUTLINE: RGBA = [255, 255, 255, 255];
+
+// Width accessor (or constant) and its update trigger
+function resolveWidth(
+  data: Segment[],
+  width: number | HotlineWidthOptions,
+  factor: number
+): {
+  getWidth: number | ((d: Segment) => number);
+  widthKey: unknown[];
+} {
+  if (typeof width === "number")
+    return { getWidth: width * factor, widthKey: [width, factor] };
+  const range = widthRangeOf(data) ?? [0, 1];
+  const minValue = width.minValue ?? range[0];
+  const maxValue = width.maxValue ?? range[1];
+  const scale = createWidthScale(minValue, maxValue, width);
+  return {
+    getWidth: (d) => scale(d.widthValue ?? NaN) * factor,
+    widthKey: [
+      minValue,
+      maxValue,
+      width.minWidth,
+      width.maxWidth,
+      width.mode,
+      factor,
+    ],
+  };
+}
+
+export function buildHotlineLayers({
+  data,
+  colorScale,
+  width = 6,
+  widthUnits = "pixels",
+  outline = false,
+  selected = false,
+  highlight = {},
+  opacity = 1,
+  pickable = false,
+  idPrefix = "hotline",
+}: BuildHotlineLayersParams) {
+  const factor = selected ? highlight.widthScale ?? 1.5 : 1;
+
+  const { getWidth, widthKey } = resolveWidth(data, width, factor);
+  const solid = selected && highlight.color ? toRgba(highlight.color) : null;
+  const fade = (c: RGBA): RGBA => [
+    c[0],
+    c[1],
+    c[2],
+    Math.round(c[3] * opacity),
+  ];
+  const getColor = (d: Segment): RGBA => fade(solid ?? colorScale(d.value));
+
+  // casing: same paths underneath, wider by the outline on both sides
+  const casing = selected
+    ? {
+        color: toRgba(highlight.outlineColor ?? DEFAULT_HIGHLIGHT_OUTLINE),
+        width: highlight.outlineWidth ?? 2,
+      }
+    : outline
+    ? {
+        color: toRgba((outline !== true && outline.color) || DEFAULT_OUTLINE),
+        width: (outline !== true && outline.width) || 1,
+      }
+    : null;
+
+  const faded = opacity < 1;
+  const runs = casing || faded ? segmentRuns(data) : [];
+  const runWidth = (extra: number) =>
+    typeof getWidth === "number"
+      ? getWidth + 2 * extra
+      : (run: SegmentRun) => runWidths(run, (d) => getWidth(d) + 2 * extra);
+
+  const style = {
+    widthUnits,
+    capRounded: true,
+    jointRounded: true,
+  };
+  const layers = [];
+  if (casing) {
+    const { color, width: extra } = casing;
+    layers.push(
+      new PathLayer<SegmentRun>({
+        ...style,
+        id: `${idPrefix}-outline`,
+        data: runs,
+        getPath: (d: SegmentRun) => d.path,
+        getColor: fade(color),
+        getWidth: runWidth(extra),
+        updateTriggers: { getWidth: [...widthKey, extra] },
+        pickable: false,
+      })
+    );
+  }
+  const lineTriggers = {
+    getColor: [colorScale, solid?.join(), opacity],
+    getWidth: widthKey,
+  };
+  layers.push(
+    faded
+      ? new PathLayer<SegmentRun>({
+          ...style,
+          id: `${idPrefix}-line`,
+          data: runs,
+          getPath: (d: SegmentRun) => d.path,
+          // per-vertex colors: the run fades as a whole
+          getColor: (d: SegmentRun) =>
+            runValues(d).map((v) => fade(solid ?? colorScale(v))),
+          getWidth: runWidth(0),
+          updateTriggers: lineTriggers,
+          pickable,
+        })
+      : new PathLayer<Segment>({
+          ...style,
+          id: `${idPrefix}-line`,
+          data,
+          getPath: (d: Segment) => d.path,
+          getColor,
+          getWidth,
+          updateTriggers: lineTriggers,
+          pickable,
+        })
+  );
+  return layers;
+}
@@ -0,0 +1,220 @@
+// Async, worker-backed versions of buildSegments / buildLodLevels and the
+// cluster index, so large inputs don't block the UI thread. Track points and
+// segments travel both ways as transferred typed arrays (see packedSegments).
+// Options must be structured-cloneable: pass `metric` by name, not as a
+// function.
+
+import type {
+  Bbox,
+  BuildLodOptions,
+  BuildResult,
+  BuildSegmentsOptions,
+  LodLevel,
+  Point,
+} from "./hotline";
+import type {
+  BuildClusterIndexOptions,
+  ClusterLayerData,
+  EventPoint,
+} from "./clusterUtil";
+import type {
+  PackedBuildResult,
+  PackedLodLevel,
+  PackedPoints,
+} from "./packedSegments";
+import {
+  packPoints,
+  pointsTransferables,
+  unpackBuildResult,
+  unpackLodLevel,
+} from "./packedSegments";
+
+export type WorkerRequest =
+  | {
+      type: "buildSegments";
+      points: PackedPoints;
+      options: BuildSegmentsOptions;
+    }
+  | { type: "buildLodLevels"; points: PackedPoints; options: BuildLodOptions }
+  | {
+      type: "buildClusterIndex";
+      points: EventPoint[];
+      options: BuildClusterIndexOptions;
+    }
+  | { type: "getClusters"; bbox: Bbox; zoom: number }
+  | { type: "getLeaves"; clusterId: number; limit: number; offset: number }
+  | { type: "getClusterBbox"; clusterId: number }
+  | { type: "getClusterExpansionZoom"; clusterId: number }
+  | {
+      type: "matchClusters";
+      parents: ClusterLayerData[];
+      children: ClusterLayerData[];
+      childZoom: number;
+    };
+
+export type WorkerResponse =
+  | { id: number; type: "progress"; fraction: number }
+  | { id: number; type: "result"; result: unknown }
+  | { id: number; type: "error"; message: string };
+
+export interface WorkerJobOptions {
+  signal?: AbortSignal; // aborting stops the worker and rejects with AbortError
+  onProgress?: (fraction: number) => void; // 0..1
+}
+
+export interface ClusterIndexHandle {
+  getClusters: (bbox: Bbox, zoom: number) => Promise<ClusterLayerData[]>;
+  getLeaves: (
+    clusterId: number,
+    limit?: number,
+    offset?: number
+  ) => Promise<EventPoint[]>;
+  getClusterBbox: (clusterId: number) => Promise<Bbox | null>;
+  getClusterExpansionZoom: (clusterId: number) => Promise<number>;
+  // see matchClusterParents
+  matchClusters: (
+    parents: ClusterLayerData[],
+    children: ClusterLayerData[],
+    childZoom: number
+  ) => Promise<number[]>;
+  dispose: () => void; // terminates the worker holding the index
+}
+
+const spawnWorker = () =>
+  new Worker(new URL("./hotline.worker.ts", import.meta.url), {
+    type: "module",
+  });
+
+const abortError = () => new DOMException("Aborted", "AbortError");
+
+let nextRequestId = 1;
+
+// Posts one request and resolves with its result. An abort terminates the
+// worker: a running build can't be interrupted any other way.
+function request<T>(
+  worker: Worker,
+  message: WorkerRequest,
+  job: WorkerJobOptions = {},
+  transfer: Transferable[] = []
+): Promise<T> {
+  const { signal, onProgress } = job;
+  if (signal?.aborted) {
+    worker.terminate();
+    return Promise.reject(abortError());
+  }
+  const id = nextRequestId++;
+  return new Promise<T>((resolve, reject) => {
+    const cleanup = () => {
+      worker.removeEventListener("message", onMessage);
+      worker.removeEventListener("error", onError);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onMessage = (e: MessageEvent<WorkerResponse>) => {
+      const msg = e.data;
+      if (msg.id !== id) return;
+      if (msg.type === "progress") {
+        onProgress?.(msg.fraction);
+        return;
+      }
+      cleanup();
+      if (msg.type === "result") resolve(msg.result as T);
+      else reject(new Error(msg.message));
+    };
+    const onError = (e: ErrorEvent) => {
+      cleanup();
+      reject(new Error(e.message || "Worker failed"));
+    };
+    const onAbort = () => {
+      cleanup();
+      worker.terminate();
+      reject(abortError());
+    };
+    worker.addEventListener("message", onMessage);
+    worker.addEventListener("error", onError);
+    signal?.addEventListener("abort", onAbort);
+    worker.postMessage({ ...message, id }, { transfer });
+  });
+}
+
+// One worker per build, closed when the build settles
+async function runBuild<T>(
+  message: WorkerRequest,
+  job?: WorkerJobOptions,
+  transfer?: Transferable[]
+) {
+  const worker = spawnWorker();
+  try {
+    return await request<T>(worker, message, job, transfer);
+  } finally {
+    worker.terminate();
+  }
+}
+
+export async function buildSegmentsAsync(
+  points: Point[],
+  options: BuildSegmentsOptions,
+  job?: WorkerJobOptions
+): Promise<BuildResult> {
+  const packedPoints = packPoints(points);
+  const packed = await runBuild<PackedBuildResult>(
+    {
+      type: "buildSegments",
+      points: packedPoints,
+      options: { ...options, onProgress: undefined },
+    },
+    job,
+    pointsTransferables(packedPoints)
+  );
+  return unpackBuildResult(packed, options.interpolation);
+}
+
+export async function buildLodLevelsAsync(
+  points: Point[],
+  options: BuildLodOptions,
+  job?: WorkerJobOptions
+): Promise<LodLevel[]> {
+  const packedPoints = packPoints(points);
+  const packed = await runBuild<PackedLodLevel[]>(
+    {
+      type: "buildLodLevels",
+      points: packedPoints,
+      options: { ...options, onProgress: undefined },
+    },
+    job,
+    pointsTransferables(packedPoints)
+  );
+  return packed.map((level) => unpackLodLevel(level, options.interpolation));
+}
+
+// The supercluster index stays in its own worker; queries are answered there
+export async function buildClusterIndexAsync(
+  points: EventPoint[],
+  options: BuildClusterIndexOptions = {},
+  job?: WorkerJobOptions
+): Promise<ClusterIndexHandle> {
+  const worker = spawnWorker();
+  try {
+    await request(worker, { type: "buildClusterIndex", points, options }, job);
+  } catch (err) {
+    worker.terminate();
+    throw err;
+  }
+  return {
+    getClusters: (bbox, zoom) =>
+      request(worker, { type: "getClusters", bbox, zoom }),
+    getLeaves: (clusterId, limit = 50, offset = 0) =>
+      request(worker, { type: "getLeaves", clusterId, limit, offset }),
+    getClusterBbox: (clusterId) =>
+      request(worker, { type: "getClusterBbox", clusterId }),
+    getClusterExpansionZoom: (clusterId) =>
+      request(worker, { type: "getClusterExpansionZoom", clusterId }),
+    matchClusters: (parents, children, childZoom) =>
+      request(worker, {
+        type: "matchClusters",
+        parents,
+        children,
+        childZoom,
+      }),
+    dispose: () => worker.terminate(),
+  };
+}
@@ -0,0 +1,18 @@
+// Small helpers shared by the composite layers (HotlineLayer, ClusterLayer).
+
+import type { Bbox } from "./hotline";
+
+// Option objects (gap rules, aggregations, ...) are usually written inline,
+// so compare them by value
+export const sameProp = (a: unknown, b: unknown) =>
+  a === b ||
+  (typeof a === "object" &&
+    typeof b === "object" &&
+    JSON.stringify(a) === JSON.stringify(b));
+
+// Whether bbox `outer` covers `inner` ([west, south, east, north])
+export const containsBbox = (outer: Bbox, inner: Bbox) =>
+  outer[0] <= inner[0] &&
+  outer[1] <= inner[1] &&
+  outer[2] >= inner[2] &&
+  outer[3] >= inner[3];
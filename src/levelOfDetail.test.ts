@@ -0,0 +1,146 @@
+// Simplification and level of detail on a seeded random walk: endpoints and
+// value extremes survive, and tolerance / point count move together across
+// levels.
+
+import { describe, expect, it } from "vitest";
+import {
+  buildLodLevels,
+  selectLodLevel,
+  simplifyTrack,
+  type Point,
+} from "./hotline";
+
+// Deterministic PRNG (mulberry32)
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A wandering drive: small heading changes, speed drifting between 0 and 120
+function randomWalk(count: number, seed: number): Point[] {
+  const rnd = random(seed);
+  const points: Point[] = [];
+  let lon = 8.5;
+  let lat = 47.3;
+  let heading = 0;
+  let speed = 50;
+  for (let i = 0; i < count; i++) {
+    points.push({ lon, lat, speed, timestamp: i * 1000 });
+    heading += (rnd() - 0.5) * 0.6;
+    speed = Math.max(0, Math.min(120, speed + (rnd() - 0.5) * 10));
+    lon += Math.sin(heading) * 0.0002;
+    lat += Math.cos(heading) * 0.00015;
+  }
+  return points;
+}
+
+const POINTS = randomWalk(2000, 3);
+
+describe("simplifyTrack", () => {
+  it("keeps both endpoints and the value extremes", () => {
+    const out = simplifyTrack(POINTS, { toleranceMeters: 200 });
+    expect(out.length).toBeLessThan(POINTS.length);
+    expect(out[0]).toBe(POINTS[0]);
+    expect(out[out.length - 1]).toBe(POINTS[POINTS.length - 1]);
+    const speeds = POINTS.map((p) => p.speed);
+    const kept = out.map((p) => p.speed);
+    expect(Math.max(...kept)).toBe(Math.max(...speeds));
+    expect(Math.min(...kept)).toBe(Math.min(...speeds));
+    // points stay in track order
+    const times = out.map((p) => p.timestamp);
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+  });
+
+  it("keeps fewer points as the tolerance grows", () => {
+    const counts = [1, 10, 100, 1000].map(
+      (toleranceMeters) =>
+        simplifyTrack(POINTS, { toleranceMeters, valueTolerance: Infinity })
+          .length
+    );
+    for (let i = 1; i < counts.length; i++)
+      expect(counts[i]).toBeLessThanOrEqual(counts[i - 1]);
+    expect(counts[counts.length - 1]).toBeLessThan(counts[0]);
+  });
+
+  it("returns a copy of short tracks and zero tolerances", () => {
+    const two = POINTS.slice(0, 2);
+    expect(simplifyTrack(two, { toleranceMeters: 1e6 })).toEqual(two);
+    const same = simplifyTrack(POINTS, { toleranceMeters: 0 });
+    expect(same).not.toBe(POINTS);
+    expect(same).toEqual(POINTS);
+  });
+});
+
+describe("buildLodLevels", () => {
+  const levels = buildLodLevels(POINTS, { subdivisions: 2 });
+
+  it("shrinks the tolerance and grows the detail level by level", () => {
+    expect(levels.map((l) => l.minZoom)).toEqual([0, 4, 6, 8, 10]);
+    for (let i = 1; i < levels.length; i++) {
+      expect(levels[i].toleranceMeters).toBeLessThan(
+        levels[i - 1].toleranceMeters
+      );
+      expect(levels[i].points.length).toBeGreaterThanOrEqual(
+        levels[i - 1].points.length
+      );
+    }
+    const full = levels[levels.length - 1];
+    expect(full.toleranceMeters).toBe(0);
+    expect(full.points).toHaveLength(POINTS.length);
+    expect(full.result.segments).toHaveLength(2 * (POINTS.length - 1));
+  });
+
+  it("keeps the endpoints, color range and camera on every level", () => {
+    const full = levels[levels.length - 1].result;
+    for (const level of levels) {
+      // points come back unwrapped, so compare times
+      const times = level.points.map((p) => p.timestamp);
+      expect(times[0]).toBe(POINTS[0].timestamp);
+      expect(times[times.length - 1]).toBe(POINTS[POINTS.length - 1].timestamp);
+      expect([level.result.minValue, level.result.maxValue]).toEqual([
+        full.minValue,
+        full.maxValue,
+      ]);
+      expect(level.result.initialViewState).toEqual(full.initialViewState);
+    }
+  });
+
+  it("never simplifies across a gap", () => {
+    const gapped = POINTS.map((p, i) =>
+      i >= 1000 ? { ...p, timestamp: p.timestamp + 3_600_000 } : p
+    );
+    const gappedLevels = buildLodLevels(gapped, {
+      subdivisions: 1,
+      gaps: { maxTimeGapMs: 60_000 },
+    });
+    for (const level of gappedLevels) {
+      const times = level.points.map((p) => p.timestamp);
+      expect(times).toContain(gapped[999].timestamp);
+      expect(times).toContain(gapped[1000].timestamp);
+      expect(level.result.gaps).toHaveLength(1);
+    }
+  });
+});
+
+describe("selectLodLevel", () => {
+  const levels = buildLodLevels(POINTS.slice(0, 50), {
+    subdivisions: 1,
+    zooms: [0, 5, 10],
+  });
+
+  it.each([
+    [-1, 0],
+    [0, 0],
+    [4.9, 0],
+    [5, 5],
+    [9.99, 5],
+    [10, 10],
+    [22, 10],
+  ])("zoom %d -> level from %d", (zoom, minZoom) => {
+    expect(selectLodLevel(levels, zoom).minZoom).toBe(minZoom);
+  });
+});
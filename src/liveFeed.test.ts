@@ -0,0 +1,120 @@
+// Live feeds against scripts/mock-feed-server.mjs: points arrive over SSE and
+// WebSocket, and both feeds pick up again after the server restarts.
+
+import { spawn, type ChildProcess } from "node:child_process";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import { WebSocket } from "ws";
+import { EventSource } from "eventsource";
+import {
+  createEventSourceFeed,
+  createWebSocketFeed,
+  type FeedStatus,
+  type TrackFeed,
+} from "./liveFeed";
+import { createLiveTrack } from "./liveTrack";
+
+const PORT = 18787;
+const SERVER = fileURLToPath(
+  new URL("../scripts/mock-feed-server.mjs", import.meta.url)
+);
+
+let server: ChildProcess | null = null;
+let feed: TrackFeed | null = null;
+
+// Resolves once the server logs that it is listening
+function startServer(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [SERVER, String(PORT)], {
+      stdio: ["ignore", "pipe", "inherit"],
+    });
+    server = child;
+    child.once("error", reject);
+    child.stdout?.once("data", () => resolve());
+  });
+}
+
+function stopServer(): Promise<void> {
+  const child = server;
+  server = null;
+  if (!child || child.exitCode !== null) return Promise.resolve();
+  return new Promise((resolve) => {
+    child.once("exit", () => resolve());
+    child.kill();
+  });
+}
+
+function waitFor(check: () => boolean, timeoutMs = 10_000): Promise<void> {
+  const start = Date.now();
+  return new Promise((resolve, reject) => {
+    const poll = () => {
+      if (check()) resolve();
+      else if (Date.now() - start > timeoutMs)
+        reject(new Error("timed out waiting for the feed"));
+      else setTimeout(poll, 50);
+    };
+    poll();
+  });
+}
+
+// Connects `feed` into a live track, restarts the server and expects new
+// points after the reconnect
+async function checkReconnect(
+  connect: TrackFeed,
+  lostStatus: FeedStatus
+): Promise<void> {
+  feed = connect;
+  const track = createLiveTrack({ subdivisions: 1 });
+  const statuses: FeedStatus[] = [];
+  feed.connect(
+    (points) => track.append(points),
+    (status) => statuses.push(status)
+  );
+  await waitFor(() => track.points().length >= 2);
+  expect(statuses).toContain("open");
+
+  await stopServer();
+  await waitFor(() => statuses.includes(lostStatus));
+  const before = track.points().length;
+  const opens = statuses.filter((s) => s === "open").length;
+
+  await startServer();
+  await waitFor(
+    () => statuses.filter((s) => s === "open").length > opens,
+    15_000
+  );
+  await waitFor(() => track.points().length >= before + 2);
+  expect(track.result().segments.length).toBe(track.points().length - 1);
+}
+
+beforeAll(() => {
+  // Node 20 has neither client built in
+  Object.assign(globalThis, { WebSocket, EventSource });
+});
+
+afterEach(async () => {
+  feed?.disconnect();
+  feed = null;
+  await stopServer();
+});
+
+describe("live feeds", () => {
+  it("reconnects Server-Sent Events after a server restart", async () => {
+    await startServer();
+    // EventSource retries on its own, reporting "error" while it does
+    await checkReconnect(
+      createEventSourceFeed(`http://localhost:${PORT}/sse`),
+      "error"
+    );
+  }, 30_000);
+
+  it("reconnects a WebSocket after a server restart", async () => {
+    await startServer();
+    await checkReconnect(
+      createWebSocketFeed(`ws://localhost:${PORT}/ws`, {
+        reconnectDelayMs: 100,
+      }),
+      "closed"
+    );
+  }, 30_000);
+});
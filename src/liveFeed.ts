@@ -0,0 +1,151 @@
+// Sources of live track points. A TrackFeed pushes parsed points to a callback
+// until disconnected; WebSocket and Server-Sent Events implementations are
+// provided, anything else (MQTT, polling, ...) just implements the interface.
+
+import type { Point } from "./hotline";
+import { parseTimestamp } from "./trackImport";
+
+export type FeedStatus = "connecting" | "open" | "closed" | "error";
+
+export interface TrackFeed {
+  connect: (
+    onPoints: (points: Point[]) => void,
+    onStatus?: (status: FeedStatus) => void
+  ) => void;
+  disconnect: () => void;
+}
+
+export type FeedParser = (data: string) => Point[];
+
+export interface FeedOptions {
+  parse?: FeedParser; // default parseFeedMessage
+}
+
+export interface WebSocketFeedOptions extends FeedOptions {
+  reconnectDelayMs?: number; // first retry; doubles up to 30 s (default 1000)
+}
+
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+function toPoint(raw: unknown): Point | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const lon = Number(r.lon ?? r.lng);
+  const lat = Number(r.lat);
+  const timestamp = parseTimestamp(r.timestamp ?? r.time);
+  if (!Number.isFinite(lon) || !Number.isFinite(lat)) return null;
+  if (!Number.isFinite(timestamp)) return null;
+  const point: Point = { lon, lat, timestamp, speed: Number(r.speed ?? NaN) };
+  if (r.metrics && typeof r.metrics === "object")
+    point.metrics = r.metrics as Record<string, number>;
+  return point;
+}
+
+// JSON message with a point, an array of points or { points: [...] }; points
+// use lon (or lng), lat, timestamp (or time) and speed in km/h. Invalid
+// entries are skipped.
+export function parseFeedMessage(data: string): Point[] {
+  let msg: unknown;
+  try {
+    msg = JSON.parse(data);
+  } catch {
+    return [];
+  }
+  const list = Array.isArray(msg)
+    ? msg
+    : msg && typeof msg === "object" && "points" in msg
+    ? (msg as { points: unknown }).points
+    : [msg];
+  if (!Array.isArray(list)) return [];
+  return list.map(toPoint).filter((p): p is Point => p !== null);
+}
+
+// Reconnects with exponential backoff until disconnect() is called
+export function createWebSocketFeed(
+  url: string,
+  options: WebSocketFeedOptions = {}
+): TrackFeed {
+  const { parse = parseFeedMessage, reconnectDelayMs = 1000 } = options;
+  let socket: WebSocket | null = null;
+  let retry: ReturnType<typeof setTimeout> | null = null;
+  let delay = reconnectDelayMs;
+  let active = false;
+
+  const disconnect = () => {
+    active = false;
+    if (retry) clearTimeout(retry);
+    retry = null;
+    socket?.close();
+    socket = null;
+  };
+
+  return {
+    connect: (onPoints, onStatus) => {
+      disconnect();
+      active = true;
+      const open = () => {
+        onStatus?.("connecting");
+        const ws = new WebSocket(url);
+        socket = ws;
+        ws.onopen = () => {
+          delay = reconnectDelayMs;
+          onStatus?.("open");
+        };
+        ws.onmessage = (e) => {
+          if (typeof e.data !== "string") return;
+          const points = parse(e.data);
+          if (points.length) onPoints(points);
+        };
+        ws.onerror = () => onStatus?.("error");
+        ws.onclose = () => {
+          if (socket !== ws) return;
+          socket = null;
+          onStatus?.("closed");
+          if (!active) return;
+          retry = setTimeout(open, delay);
+          delay = Math.min(delay * 2, MAX_RECONNECT_DELAY_MS);
+        };
+      };
+      open();
+    },
+    disconnect,
+  };
+}
+
+// EventSource reconnects on its own (server controls the delay via `retry:`)
+export function createEventSourceFeed(
+  url: string,
+  options: FeedOptions = {}
+): TrackFeed {
+  const { parse = parseFeedMessage } = options;
+  let source: EventSource | null = null;
+
+  const disconnect = () => {
+    source?.close();
+    source = null;
+  };
+
+  return {
+    connect: (onPoints, onStatus) => {
+      disconnect();
+      onStatus?.("connecting");
+      const es = new EventSource(url);
+      source = es;
+      es.onopen = () => onStatus?.("open");
+      es.onmessage = (e) => {
+        const points = parse(e.data);
+        if (points.length) onPoints(points);
+      };
+      es.onerror = () =>
+        onStatus?.(es.readyState === EventSource.CLOSED ? "closed" : "error");
+    },
+    disconnect,
+  };
+}
+
+// WebSocket for ws(s):// URLs, Server-Sent Events otherwise
+export function createFeedForUrl(url: string, options?: FeedOptions) {
+  return /^wss?:/i.test(url)
+    ? createWebSocketFeed(url, options)
+    : createEventSourceFeed(url, options);
+}
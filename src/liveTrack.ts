@@ -0,0 +1,332 @@
+// Incremental hotline for live (streaming) tracks: points are appended as they
+// arrive and old ones can be dropped with a sliding window. Segments are kept
+// in chunks, each with its own spatial index and value / width ranges, so an
+// append only rebuilds the index of the last chunk instead of the whole track.
+// The segment array and the index of the result are updated in place.
+
+import type {
+  Bbox,
+  BuildResult,
+  BuildSegmentsOptions,
+  Point,
+  Segment,
+  SegmentIndex,
+  SegmentMatch,
+  TrackGap,
+  ViewState,
+} from "./hotline";
+import {
+  buildPairSegments,
+  createSegmentIndex,
+  fitBounds,
+  resolveMetric,
+  wrapLongitude,
+} from "./hotline";
+import { createSpatialIndex } from "./spatialIndex";
+
+export interface LiveTrackOptions extends BuildSegmentsOptions {
+  maxPoints?: number; // keep at most this many points (default unlimited)
+  maxAgeMs?: number; // drop points older than the latest by this much
+}
+
+export interface LiveTrack {
+  // Adds fixes; ones not newer than the last point are ignored. Returns the
+  // number of points accepted.
+  append: (points: Point | Point[]) => number;
+  clear: () => void;
+  points: () => Point[]; // current window, longitudes unwrapped
+  last: () => Point | null;
+  // Current window; a new object after every change, so it can be used as
+  // React state / memo dependency. Its `segments` and `index` are shared by
+  // all results and updated in place: compare results, not the arrays.
+  result: () => BuildResult;
+}
+
+const CHUNK_SIZE = 4096; // segments per indexed chunk
+
+interface Chunk {
+  segments: Segment[];
+  firstPair: number; // pair index of segments[0]
+  minValue: number;
+  maxValue: number;
+  minWidth: number; // widthValue range
+  maxWidth: number;
+  bbox: Bbox | null;
+  index: SegmentIndex | null; // built on first query after a change
+}
+
+const emptyChunk = (firstPair: number): Chunk => ({
+  segments: [],
+  firstPair,
+  minValue: Infinity,
+  maxValue: -Infinity,
+  minWidth: Infinity,
+  maxWidth: -Infinity,
+  bbox: null,
+  index: null,
+});
+
+function addToChunk(chunk: Chunk, seg: Segment) {
+  chunk.segments.push(seg);
+  chunk.index = null;
+  if (Number.isFinite(seg.value)) {
+    chunk.minValue = Math.min(chunk.minValue, seg.value);
+    chunk.maxValue = Math.max(chunk.maxValue, seg.value);
+  }
+  const w = seg.widthValue;
+  if (w !== undefined && Number.isFinite(w)) {
+    chunk.minWidth = Math.min(chunk.minWidth, w);
+    chunk.maxWidth = Math.max(chunk.maxWidth, w);
+  }
+  const [[x1, y1], [x2, y2]] = seg.path;
+  const b = chunk.bbox ?? [x1, y1, x1, y1];
+  chunk.bbox = [
+    Math.min(b[0], x1, x2),
+    Math.min(b[1], y1, y2),
+    Math.max(b[2], x1, x2),
+    Math.max(b[3], y1, y2),
+  ];
+}
+
+// Pair index from a segment id "<pair>-<sub>"
+const pairOf = (s: Segment) => Number(s.id.slice(0, s.id.indexOf("-")));
+
+// One SegmentIndex over the current chunks (read on every query); segmentIndex
+// in matches is the position in the concatenated segments
+function composeIndex(
+  getChunks: () => Chunk[],
+  interpolation: BuildSegmentsOptions["interpolation"]
+): SegmentIndex {
+  const offsetsOf = (chunks: Chunk[]) => {
+    const offsets: number[] = [];
+    let total = 0;
+    for (const c of chunks) {
+      offsets.push(total);
+      total += c.segments.length;
+    }
+    return offsets;
+  };
+  const indexOf = (c: Chunk) =>
+    (c.index ??= createSegmentIndex(c.segments, undefined, interpolation));
+  const shift = (m: SegmentMatch, offset: number): SegmentMatch => ({
+    ...m,
+    segmentIndex: m.segmentIndex + offset,
+  });
+  const byDistance = (a: SegmentMatch, b: SegmentMatch) =>
+    a.distMeters - b.distMeters;
+  // matches of every chunk, shifted to positions in the whole track
+  const collect = (query: (index: SegmentIndex) => SegmentMatch[]) => {
+    const chunks = getChunks();
+    const offsets = offsetsOf(chunks);
+    return chunks
+      .flatMap((c, ci) => query(indexOf(c)).map((m) => shift(m, offsets[ci])))
+      .sort(byDistance);
+  };
+  return {
+    nearest: (lon, lat, maxMeters = Infinity) => {
+      const chunks = getChunks();
+      const offsets = offsetsOf(chunks);
+      let best: SegmentMatch | null = null;
+      chunks.forEach((c, ci) => {
+        // chunks after the first only need to beat the best so far
+        const m = indexOf(c).nearest(lon, lat, best?.distMeters ?? maxMeters);
+        if (m && (!best || m.distMeters < best.distMeters))
+          best = shift(m, offsets[ci]);
+      });
+      return best;
+    },
+    kNearest: (lon, lat, k, maxMeters) =>
+      collect((index) => index.kNearest(lon, lat, k, maxMeters)).slice(0, k),
+    withinRadius: (lon, lat, meters) =>
+      collect((index) => index.withinRadius(lon, lat, meters)),
+    search: (bbox) => getChunks().flatMap((c) => indexOf(c).search(bbox)),
+    // coarse tree over the chunk boxes, not a per-segment tree
+    get data() {
+      return createSpatialIndex(
+        getChunks().flatMap((c) => c.bbox ?? [0, 0, 0, 0])
+      ).data;
+    },
+  };
+}
+
+export function createLiveTrack(options: LiveTrackOptions): LiveTrack {
+  const { maxPoints = Infinity, maxAgeMs = Infinity } = options;
+  const getValue = resolveMetric(options.metric);
+  const getWidthValue = options.widthMetric
+    ? resolveMetric(options.widthMetric)
+    : null;
+  let pts: Point[] = [];
+  let firstPoint = 0; // absolute index of pts[0]; pair ids stay stable
+  let chunks: Chunk[] = [];
+  let gaps: TrackGap[] = [];
+  let snapshot: BuildResult | null = null;
+  // all chunk segments in order, shared with the results
+  const segments: Segment[] = [];
+  const index = composeIndex(() => chunks, options.interpolation);
+
+  const chunkFor = (pair: number) => {
+    let c = chunks[chunks.length - 1];
+    if (!c || c.segments.length >= CHUNK_SIZE) {
+      c = emptyChunk(pair);
+      chunks.push(c);
+    }
+    return c;
+  };
+
+  // Drops segments of pairs before `first`; chunk stats are recomputed only
+  // for the chunk that is cut in the middle
+  const trimTo = (first: number) => {
+    const before = chunks.reduce((n, c) => n + c.segments.length, 0);
+    while (chunks.length) {
+      const c = chunks[0];
+      const end = c.segments.length
+        ? pairOf(c.segments[c.segments.length - 1])
+        : -1;
+      if (end >= first) break;
+      chunks.shift();
+    }
+    const head = chunks[0];
+    if (head && head.firstPair < first) {
+      const rebuilt = emptyChunk(first);
+      for (const s of head.segments)
+        if (pairOf(s) >= first) addToChunk(rebuilt, s);
+      chunks[0] = rebuilt;
+    }
+    const after = chunks.reduce((n, c) => n + c.segments.length, 0);
+    segments.splice(0, before - after);
+    gaps = gaps.filter((g) => g.index >= first);
+  };
+
+  const applyWindow = () => {
+    const latest = pts[pts.length - 1];
+    let drop = Math.max(0, pts.length - maxPoints);
+    while (
+      drop < pts.length - 1 &&
+      latest.timestamp - pts[drop].timestamp > maxAgeMs
+    )
+      drop++;
+    if (!drop) return;
+    pts = pts.slice(drop);
+    firstPoint += drop;
+    trimTo(firstPoint);
+  };
+
+  const append = (input: Point | Point[]) => {
+    const incoming = Array.isArray(input) ? input : [input];
+    let accepted = 0;
+    for (const raw of incoming) {
+      const prev = pts[pts.length - 1];
+      if (prev && !(raw.timestamp > prev.timestamp)) continue;
+      // continue the track across the antimeridian
+      const lon = prev ? prev.lon + wrapLongitude(raw.lon - prev.lon) : raw.lon;
+      const p = lon === raw.lon ? raw : { ...raw, lon };
+      pts.push(p);
+      accepted++;
+      if (!prev) continue;
+      const pair = firstPoint + pts.length - 2;
+      const built = buildPairSegments(
+        prev,
+        p,
+        pair,
+        options,
+        getValue,
+        getWidthValue
+      );
+      if (built.gap) gaps.push(built.gap);
+      for (const seg of built.segments) {
+        addToChunk(chunkFor(pair), seg);
+        segments.push(seg);
+      }
+    }
+    if (accepted) {
+      applyWindow();
+      snapshot = null;
+    }
+    return accepted;
+  };
+
+  const result = (): BuildResult => {
+    if (snapshot) return snapshot;
+    let minV = Infinity;
+    let maxV = -Infinity;
+    let minW = Infinity;
+    let maxW = -Infinity;
+    let bbox: Bbox | null = null;
+    for (const c of chunks) {
+      minV = Math.min(minV, c.minValue);
+      maxV = Math.max(maxV, c.maxValue);
+      minW = Math.min(minW, c.minWidth);
+      maxW = Math.max(maxW, c.maxWidth);
+      if (!c.bbox) continue;
+      bbox = bbox
+        ? [
+            Math.min(bbox[0], c.bbox[0]),
+            Math.min(bbox[1], c.bbox[1]),
+            Math.max(bbox[2], c.bbox[2]),
+            Math.max(bbox[3], c.bbox[3]),
+          ]
+        : c.bbox;
+    }
+    if (!Number.isFinite(minV)) minV = 0;
+    if (!Number.isFinite(maxV)) maxV = 1;
+    snapshot = {
+      segments,
+      minValue: options.minValueOverride ?? minV,
+      maxValue: options.maxValueOverride ?? maxV,
+      initialViewState: bbox
+        ? fitBounds(bbox, options.viewport)
+        : { longitude: 0, latitude: 0, zoom: 2, pitch: 0, bearing: 0 },
+      index,
+      bbox,
+      gaps: gaps.slice(),
+      widthRange: minW <= maxW ? [minW, maxW] : null,
+    };
+    return snapshot;
+  };
+
+  return {
+    append,
+    clear: () => {
+      pts = [];
+      firstPoint = 0;
+      chunks = [];
+      gaps = [];
+      segments.length = 0;
+      snapshot = null;
+    },
+    points: () => pts,
+    last: () => pts[pts.length - 1] ?? null,
+    result,
+  };
+}
+
+// ---- Follow camera ----
+
+export interface FollowOptions {
+  zoom?: number; // default: keep the current zoom
+  rotate?: boolean; // turn the map so the heading points up (default false)
+  pitch?: number; // default: keep the current pitch
+}
+
+// Camera centred on a moving position, e.g. the last fix of a live track
+export function followViewState(
+  current: ViewState,
+  position: { lon: number; lat: number; heading?: number },
+  options: FollowOptions = {}
+): ViewState {
+  const {
+    zoom = current.zoom,
+    rotate = false,
+    pitch = current.pitch,
+  } = options;
+  return {
+    longitude: wrapLongitude(position.lon),
+    latitude: position.lat,
+    zoom,
+    pitch,
+    bearing:
+      rotate && Number.isFinite(position.heading)
+        ? (position.heading as number)
+        : current.bearing,
+  };
+}
@@ -0,0 +1,292 @@
+// Pure MapLibre hotline renderer (no deck.gl): the whole track is a single
+// GeoJSON LineString source with lineMetrics, colored by a generated
+// `line-gradient` expression over `line-progress`; gaps are transparent
+// stretches of that gradient.
+// Call addMapLibreHotline after the map style has loaded.
+
+import type {
+  GeoJSONSource,
+  LayerSpecification,
+  Map as MapLibreMap,
+  MapMouseEvent,
+} from "maplibre-gl";
+import type { GapRules, Metric, NearestResult, Point } from "./hotline";
+import type { ColorInput, ColorScaleOptions, PaletteName } from "./colorScale";
+import { rgbaToCss } from "./colorScale";
+import {
+  buildSegments,
+  createSpeedColorScale,
+  findNearestPointOnTrack,
+  mercatorXY,
+  metersPerPixel,
+  resolveMetric,
+  unwrapLongitudes,
+} from "./hotline";
+
+type LineLayerSpecification = Extract<LayerSpecification, { type: "line" }>;
+export type LineGradientExpression = NonNullable<
+  NonNullable<LineLayerSpecification["paint"]>["line-gradient"]
+>;
+
+export interface MapLibreHotlineOptions {
+  id?: string; // prefix for source/layer ids (default "hotline")
+  metric?: Metric; // colored value (default "speed")
+  colors?: ColorInput[] | PaletteName;
+  colorScale?: ColorScaleOptions; // stops, classes, mode, interpolation
+  minValue?: number; // forces min for coloring
+  maxValue?: number; // forces max for coloring
+  gaps?: GapRules; // hidden point pairs, as in buildSegments
+  width?: number; // px (default 6)
+  maxStops?: number; // cap on gradient stops (default 2048)
+  beforeId?: string; // insert layers below this layer
+  onHover?: (nearest: NearestResult | null) => void; // enables hover + marker
+  hoverTolerancePx?: number; // default 40
+}
+
+export interface MapLibreHotline {
+  update: (points: Point[], options?: MapLibreHotlineOptions) => void;
+  remove: () => void;
+  findNearest: (
+    lon: number,
+    lat: number,
+    maxMeters?: number
+  ) => NearestResult | null;
+}
+
+const TRANSPARENT = "rgba(0, 0, 0, 0)";
+
+// Builds ["interpolate", ["linear"], ["line-progress"], p0, c0, p1, c1, ...]
+// where progress is the cumulative distance fraction of each point, measured
+// in Web Mercator units like MapLibre's line-progress. Long tracks are thinned
+// to maxStops by keeping the lowest and highest value of each run of points.
+// `gapIndices` (TrackGap.index) make the line transparent up to the next point.
+export function buildLineGradientExpression(
+  points: Point[],
+  minValue: number,
+  maxValue: number,
+  colors: ColorInput[] | PaletteName,
+  metric?: Metric,
+  maxStops = 2048,
+  scaleOptions?: ColorScaleOptions,
+  gapIndices: number[] = []
+): LineGradientExpression {
+  const getValue = resolveMetric(metric);
+  const scale = createSpeedColorScale(minValue, maxValue, colors, scaleOptions);
+  const toCss = (v: number) => rgbaToCss(scale(v));
+  if (points.length < 2) {
+    const c = toCss(points.length ? getValue(points[0]) : NaN);
+    return ["interpolate", ["linear"], ["line-progress"], 0, c, 1, c];
+  }
+  // same longitudes as the drawn line (see lineFeature)
+  const xy = unwrapLongitudes(points).map((p) => mercatorXY(p.lon, p.lat));
+  const dists: number[] = [0];
+  for (let i = 1; i < xy.length; i++) {
+    const [x0, y0] = xy[i - 1];
+    const [x1, y1] = xy[i];
+    dists[i] = dists[i - 1] + Math.hypot(x1 - x0, y1 - y0);
+  }
+  const total = dists[dists.length - 1] || 1;
+  const values = points.map(getValue);
+
+  // indices to keep: all of them, or the first / last point plus the min and
+  // max of each bucket so peaks survive thinning
+  let keep: number[];
+  const buckets = Math.floor((maxStops - 2) / 2);
+  if (points.length <= maxStops || buckets < 1) {
+    keep = points.map((_, i) => i);
+  } else {
+    keep = [0];
+    const size = (points.length - 2) / buckets;
+    for (let b = 0; b < buckets; b++) {
+      const from = 1 + Math.floor(b * size);
+      const to = 1 + Math.floor((b + 1) * size);
+      let lo = from;
+      let hi = from;
+      for (let i = from + 1; i < to; i++) {
+        if (values[i] < values[lo]) lo = i;
+        if (values[i] > values[hi]) hi = i;
+      }
+      keep.push(Math.min(lo, hi));
+      if (lo !== hi) keep.push(Math.max(lo, hi));
+    }
+    keep.push(points.length - 1);
+  }
+  // both ends of every gap are needed for its transparent stretch
+  const gapStarts = new Set(gapIndices);
+  if (gapStarts.size) {
+    const all = new Set(keep);
+    for (const g of gapStarts) all.add(g).add(g + 1);
+    keep = Array.from(all)
+      .filter((i) => i < points.length)
+      .sort((a, b) => a - b);
+  }
+
+  const stops: (number | string)[] = [];
+  let lastProgress = -1;
+  const push = (progress: number, color: string) => {
+    // interpolate stops must be strictly ascending
+    if (progress <= lastProgress) return;
+    stops.push(progress, color);
+    lastProgress = progress;
+  };
+  for (const i of keep) {
+    push(dists[i] / total, toCss(values[i]));
+    if (!gapStarts.has(i) || i + 1 >= points.length) continue;
+    const from = dists[i] / total;
+    const to = dists[i + 1] / total;
+    const edge = Math.min((to - from) / 4, 1e-6);
+    if (edge <= 0) continue;
+    push(from + edge, TRANSPARENT);
+    push(to - edge, TRANSPARENT);
+  }
+  if (lastProgress < 1) {
+    stops.push(1, toCss(values[values.length - 1]));
+  }
+  if (stops.length < 4) stops.push(1, stops[1]);
+  return ["interpolate", ["linear"], ["line-progress"], ...stops];
+}
+
+// Longitudes past +-180 keep antimeridian crossings as one short line
+function lineFeature(points: Point[]): GeoJSON.Feature<GeoJSON.LineString> {
+  return {
+    type: "Feature",
+    properties: {},
+    geometry: {
+      type: "LineString",
+      coordinates: unwrapLongitudes(points).map((p) => [p.lon, p.lat]),
+    },
+  };
+}
+
+export function addMapLibreHotline(
+  map: MapLibreMap,
+  points: Point[],
+  options: MapLibreHotlineOptions = {}
+): MapLibreHotline {
+  let opts = options;
+  const prefix = opts.id ?? "hotline";
+  const sourceId = `${prefix}-source`;
+  const lineId = `${prefix}-line`;
+  const markerSourceId = `${prefix}-nearest-source`;
+  const markerId = `${prefix}-nearest`;
+
+  // Segments are only used for min/max, gaps and nearest-point lookup
+  const buildFor = (pts: Point[]) =>
+    buildSegments(pts, {
+      subdivisions: 1,
+      metric: opts.metric,
+      minValueOverride: opts.minValue,
+      maxValueOverride: opts.maxValue,
+      gaps: opts.gaps,
+    });
+  let build = buildFor(points);
+
+  const gradient = () =>
+    buildLineGradientExpression(
+      points,
+      build.minValue,
+      build.maxValue,
+      opts.colors ?? [],
+      opts.metric,
+      opts.maxStops,
+      opts.colorScale,
+      build.gaps.map((g) => g.index)
+    );
+
+  map.addSource(sourceId, {
+    type: "geojson",
+    data: lineFeature(points),
+    lineMetrics: true,
+  });
+  map.addLayer(
+    {
+      id: lineId,
+      type: "line",
+      source: sourceId,
+      layout: { "line-cap": "round", "line-join": "round" },
+      paint: {
+        "line-width": opts.width ?? 6,
+        "line-gradient": gradient(),
+      },
+    },
+    opts.beforeId
+  );
+  map.addSource(markerSourceId, {
+    type: "geojson",
+    data: { type: "FeatureCollection", features: [] },
+  });
+  map.addLayer({
+    id: markerId,
+    type: "circle",
+    source: markerSourceId,
+    paint: {
+      "circle-radius": 6,
+      "circle-color": "rgba(255, 255, 255, 0.8)",
+      "circle-stroke-color": "rgba(0, 0, 0, 0.9)",
+      "circle-stroke-width": 2,
+    },
+  });
+
+  const findNearest = (lon: number, lat: number, maxMeters?: number) =>
+    findNearestPointOnTrack(lon, lat, build.segments, build.index, maxMeters);
+
+  const setMarker = (nearest: NearestResult | null) => {
+    const src = map.getSource(markerSourceId) as GeoJSONSource | undefined;
+    src?.setData({
+      type: "FeatureCollection",
+      features: nearest
+        ? [
+            {
+              type: "Feature",
+              properties: {},
+              geometry: {
+                type: "Point",
+                coordinates: [nearest.lon, nearest.lat],
+              },
+            },
+          ]
+        : [],
+    });
+  };
+
+  const onMouseMove = (e: MapMouseEvent) => {
+    if (!opts.onHover) return;
+    const { lng, lat } = e.lngLat;
+    const threshold =
+      metersPerPixel(map.getZoom(), lat) * (opts.hoverTolerancePx ?? 40);
+    const hit = findNearest(lng, lat, threshold);
+    setMarker(hit);
+    opts.onHover(hit);
+  };
+  const onMouseOut = () => {
+    if (!opts.onHover) return;
+    setMarker(null);
+    opts.onHover(null);
+  };
+  map.on("mousemove", onMouseMove);
+  map.on("mouseout", onMouseOut);
+
+  return {
+    update(nextPoints, nextOptions) {
+      points = nextPoints;
+      if (nextOptions) opts = { ...opts, ...nextOptions };
+      build = buildFor(points);
+      const src = map.getSource(sourceId) as GeoJSONSource | undefined;
+      src?.setData(lineFeature(points));
+      map.setPaintProperty(lineId, "line-gradient", gradient());
+      map.setPaintProperty(lineId, "line-width", opts.width ?? 6);
+      setMarker(null);
+    },
+    remove() {
+      map.off("mousemove", onMouseMove);
+      map.off("mouseout", onMouseOut);
+      for (const id of [markerId, lineId]) {
+        if (map.getLayer(id)) map.removeLayer(id);
+      }
+      for (const id of [markerSourceId, sourceId]) {
+        if (map.getSource(id)) map.removeSource(id);
+      }
+    },
+    findNearest,
+  };
+}
@@ -0,0 +1,220 @@
+// Typed-array form of build results for moving them between threads: one
+// Float64Array per field instead of an object per segment, so a worker can
+// transfer the buffers instead of structured-cloning millions of objects.
+
+import type {
+  BuildResult,
+  BuildSegmentsOptions,
+  LodLevel,
+  Point,
+  Segment,
+} from "./hotline";
+import { createSegmentIndex } from "./hotline";
+import type { SpatialIndexData } from "./spatialIndex";
+
+export interface PackedSegments {
+  count: number;
+  paths: Float64Array; // lon0, lat0, lon1, lat1 per segment
+  values: Float64Array; // value0, value1
+  speeds: Float64Array; // speed0, speed1
+  times: Float64Array; // time0, time1
+  pairs: Uint32Array; // index of the point pair (id `${pair}-${sub}`)
+  subs: Uint16Array; // subdivision within the pair
+  widths: Float64Array | null; // widthValue, when the build had a width metric
+}
+
+export interface PackedPoints {
+  count: number;
+  coords: Float64Array; // lon, lat per point
+  speeds: Float64Array;
+  times: Float64Array;
+  metrics: Record<string, Float64Array>; // one column per key, NaN if absent
+}
+
+export interface PackedBuildResult
+  extends Omit<BuildResult, "segments" | "index"> {
+  segments: PackedSegments;
+  index: SpatialIndexData;
+}
+
+export interface PackedLodLevel extends Omit<LodLevel, "points" | "result"> {
+  points: PackedPoints;
+  result: PackedBuildResult;
+}
+
+export function packPoints(points: Point[]): PackedPoints {
+  const count = points.length;
+  const packed: PackedPoints = {
+    count,
+    coords: new Float64Array(count * 2),
+    speeds: new Float64Array(count),
+    times: new Float64Array(count),
+    metrics: {},
+  };
+  points.forEach((p, i) => {
+    packed.coords[2 * i] = p.lon;
+    packed.coords[2 * i + 1] = p.lat;
+    packed.speeds[i] = p.speed;
+    packed.times[i] = p.timestamp;
+    if (!p.metrics) return;
+    for (const key in p.metrics) {
+      let column = packed.metrics[key];
+      if (!column) {
+        column = packed.metrics[key] = new Float64Array(count).fill(NaN);
+      }
+      column[i] = p.metrics[key];
+    }
+  });
+  return packed;
+}
+
+export function unpackPoints(packed: PackedPoints): Point[] {
+  const { coords, speeds, times } = packed;
+  const columns = Object.entries(packed.metrics);
+  const points: Point[] = new Array(packed.count);
+  for (let i = 0; i < packed.count; i++) {
+    points[i] = {
+      lon: coords[2 * i],
+      lat: coords[2 * i + 1],
+      speed: speeds[i],
+      timestamp: times[i],
+    };
+    for (const [key, column] of columns) {
+      if (Number.isNaN(column[i])) continue;
+      (points[i].metrics ??= {})[key] = column[i];
+    }
+  }
+  return points;
+}
+
+export function pointsTransferables(packed: PackedPoints): ArrayBuffer[] {
+  const { coords, speeds, times, metrics } = packed;
+  return [coords, speeds, times, ...Object.values(metrics)].map(
+    (a) => a.buffer as ArrayBuffer
+  );
+}
+
+// Segments as produced by buildSegments (ids "<pair>-<sub>")
+export function packSegments(segments: Segment[]): PackedSegments {
+  const count = segments.length;
+  const packed: PackedSegments = {
+    count,
+    paths: new Float64Array(count * 4),
+    values: new Float64Array(count * 2),
+    speeds: new Float64Array(count * 2),
+    times: new Float64Array(count * 2),
+    pairs: new Uint32Array(count),
+    subs: new Uint16Array(count),
+    widths: segments.some((s) => s.widthValue !== undefined)
+      ? new Float64Array(count)
+      : null,
+  };
+  segments.forEach((s, i) => {
+    const [[lon0, lat0], [lon1, lat1]] = s.path;
+    packed.paths[4 * i] = lon0;
+    packed.paths[4 * i + 1] = lat0;
+    packed.paths[4 * i + 2] = lon1;
+    packed.paths[4 * i + 3] = lat1;
+    packed.values[2 * i] = s.value0;
+    packed.values[2 * i + 1] = s.value1;
+    packed.speeds[2 * i] = s.speed0;
+    packed.speeds[2 * i + 1] = s.speed1;
+    packed.times[2 * i] = s.time0;
+    packed.times[2 * i + 1] = s.time1;
+    const dash = s.id.indexOf("-");
+    packed.pairs[i] = Number(s.id.slice(0, dash));
+    packed.subs[i] = Number(s.id.slice(dash + 1));
+    if (packed.widths) packed.widths[i] = s.widthValue ?? NaN;
+  });
+  return packed;
+}
+
+export function unpackSegments(packed: PackedSegments): Segment[] {
+  const { paths, values, speeds, times, pairs, subs, widths } = packed;
+  const segments: Segment[] = new Array(packed.count);
+  for (let i = 0; i < packed.count; i++) {
+    const value0 = values[2 * i];
+    const value1 = values[2 * i + 1];
+    const speed0 = speeds[2 * i];
+    const speed1 = speeds[2 * i + 1];
+    const time0 = times[2 * i];
+    const time1 = times[2 * i + 1];
+    segments[i] = {
+      id: `${pairs[i]}-${subs[i]}`,
+      path: [
+        [paths[4 * i], paths[4 * i + 1]],
+        [paths[4 * i + 2], paths[4 * i + 3]],
+      ],
+      value: (value0 + value1) / 2,
+      speed: (speed0 + speed1) / 2,
+      timestamp: (time0 + time1) / 2,
+      value0,
+      value1,
+      speed0,
+      speed1,
+      time0,
+      time1,
+    };
+    if (widths) segments[i].widthValue = widths[i];
+  }
+  return segments;
+}
+
+export function packLodLevel(level: LodLevel): PackedLodLevel {
+  return {
+    ...level,
+    points: packPoints(level.points),
+    result: packBuildResult(level.result),
+  };
+}
+
+export function unpackLodLevel(
+  packed: PackedLodLevel,
+  interpolation?: BuildSegmentsOptions["interpolation"]
+): LodLevel {
+  return {
+    ...packed,
+    points: unpackPoints(packed.points),
+    result: unpackBuildResult(packed.result, interpolation),
+  };
+}
+
+export function packBuildResult(result: BuildResult): PackedBuildResult {
+  return {
+    ...result,
+    segments: packSegments(result.segments),
+    index: result.index.data,
+  };
+}
+
+// The spatial index is rebuilt around the received tree arrays, not re-sorted;
+// pass the interpolation the result was built with
+export function unpackBuildResult(
+  packed: PackedBuildResult,
+  interpolation?: BuildSegmentsOptions["interpolation"]
+): BuildResult {
+  const segments = unpackSegments(packed.segments);
+  return {
+    ...packed,
+    segments,
+    index: createSegmentIndex(segments, packed.index, interpolation),
+  };
+}
+
+// Buffers to list in postMessage's transfer option
+export function buildResultTransferables(
+  packed: PackedBuildResult
+): ArrayBuffer[] {
+  const { paths, values, speeds, times, pairs, subs, widths } = packed.segments;
+  return [
+    paths,
+    values,
+    speeds,
+    times,
+    pairs,
+    subs,
+    ...(widths ? [widths] : []),
+    packed.index.boxes,
+    packed.index.indices,
+  ].map((a) => a.buffer as ArrayBuffer);
+}
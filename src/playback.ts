@@ -0,0 +1,88 @@
+// Playback controller: advances a time cursor over [startTime, endTime] with
+// requestAnimationFrame. speed is a multiplier of real time (60 = 1 min/s).
+
+export interface PlaybackOptions {
+  startTime: number; // ms epoch
+  endTime: number; // ms epoch
+  speed?: number; // default 60
+  loop?: boolean; // restart at startTime when the end is reached
+  onTick: (time: number) => void;
+  onStateChange?: (playing: boolean) => void;
+}
+
+export interface PlaybackController {
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  setSpeed: (speed: number) => void;
+  getTime: () => number;
+  isPlaying: () => boolean;
+  destroy: () => void;
+}
+
+export function createPlaybackController(
+  options: PlaybackOptions
+): PlaybackController {
+  const { startTime, endTime, loop = false, onTick, onStateChange } = options;
+  let speed = options.speed ?? 60;
+  let time = startTime;
+  let playing = false;
+  let frame: number | null = null;
+  let lastFrameAt = 0;
+
+  const clamp = (t: number) => Math.max(startTime, Math.min(endTime, t));
+
+  const setPlaying = (next: boolean) => {
+    if (playing === next) return;
+    playing = next;
+    onStateChange?.(playing);
+  };
+
+  const step = (now: number) => {
+    const dt = now - lastFrameAt;
+    lastFrameAt = now;
+    time += dt * speed;
+    if (time >= endTime) {
+      if (loop)
+        time = startTime + ((time - startTime) % (endTime - startTime || 1));
+      else {
+        time = endTime;
+        onTick(time);
+        frame = null;
+        setPlaying(false);
+        return;
+      }
+    }
+    onTick(time);
+    frame = requestAnimationFrame(step);
+  };
+
+  return {
+    play() {
+      if (playing) return;
+      if (time >= endTime) time = startTime;
+      lastFrameAt = performance.now();
+      setPlaying(true);
+      frame = requestAnimationFrame(step);
+    },
+    pause() {
+      if (frame != null) cancelAnimationFrame(frame);
+      frame = null;
+      setPlaying(false);
+    },
+    seek(t) {
+      time = clamp(t);
+      onTick(time);
+    },
+    setSpeed(s) {
+      speed = s;
+    },
+    getTime: () => time,
+    isPlaying: () => playing,
+    destroy() {
+      if (frame != null) cancelAnimationFrame(frame);
+      frame = null;
+      playing = false;
+    },
+  };
+}
@@ -0,0 +1,212 @@
+// The packed R-tree against a brute-force scan: random segments (some across
+// the antimeridian) queried for nearest, k nearest, radius and bbox.
+
+import { describe, expect, it } from "vitest";
+import type { Bbox, Segment } from "./hotline";
+import { createSegmentIndex, findNearestPointOnTrack } from "./hotline";
+import { createSpatialIndex, spatialIndexFromData } from "./spatialIndex";
+
+// Deterministic PRNG (mulberry32)
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function segment(
+  id: number,
+  a: [number, number],
+  b: [number, number]
+): Segment {
+  return {
+    id: `${id}-0`,
+    path: [a, b],
+    value: 0,
+    speed: 0,
+    timestamp: id + 0.5,
+    value0: 0,
+    value1: 0,
+    speed0: 0,
+    speed1: 0,
+    time0: id,
+    time1: id + 1,
+  };
+}
+
+// Clusters around a few centers, plus segments leaving 180° eastwards
+function randomSegments(count: number, seed: number): Segment[] {
+  const rnd = random(seed);
+  const centers: [number, number][] = [
+    [179.5, 10],
+    [-179.5, -20],
+    [10, 60],
+    [-75, 40],
+  ];
+  const out: Segment[] = [];
+  for (let i = 0; i < count; i++) {
+    const [cx, cy] = centers[i % centers.length];
+    const a: [number, number] = [
+      cx + (rnd() - 0.5) * 6,
+      cy + (rnd() - 0.5) * 6,
+    ];
+    const b: [number, number] = [
+      a[0] + (rnd() - 0.5) * 4,
+      a[1] + (rnd() - 0.5) * 4,
+    ];
+    out.push(segment(i, a, b));
+  }
+  for (let i = 0; i < 20; i++) {
+    const lon = 178 + rnd() * 2;
+    const lat = (rnd() - 0.5) * 40;
+    out.push(segment(count + i, [lon, lat], [lon + 1 + rnd() * 3, lat + 1]));
+  }
+  return out;
+}
+
+const distanceTo = (
+  segments: Segment[],
+  i: number,
+  lon: number,
+  lat: number,
+  interpolation: "linear" | "geodesic"
+) =>
+  (
+    findNearestPointOnTrack(
+      lon,
+      lat,
+      [segments[i]],
+      undefined,
+      Infinity,
+      interpolation
+    ) as { distMeters: number }
+  ).distMeters;
+
+// Segment boxes overlapping the bbox in any world copy
+function bruteSearch(segments: Segment[], [w, s, e, n]: Bbox): string[] {
+  const east = e < w ? e + 360 : e;
+  return segments
+    .filter(({ path: [a, b] }) => {
+      const minX = Math.min(a[0], b[0]);
+      const maxX = Math.max(a[0], b[0]);
+      if (Math.max(a[1], b[1]) < s || Math.min(a[1], b[1]) > n) return false;
+      return [-720, -360, 0, 360, 720].some(
+        (shift) => maxX >= w + shift && minX <= east + shift
+      );
+    })
+    .map((seg) => seg.id);
+}
+
+const QUERIES: [number, number][] = [
+  [179.9, 10],
+  [-179.9, 12], // other side of the antimeridian
+  [-178.5, 0], // near the segments continued past 180°
+  [181.2, -19], // unwrapped query
+  [10, 60],
+  [-75, 41],
+  [0, 0],
+  [100, -80],
+];
+
+describe.each(["linear", "geodesic"] as const)(
+  "segment index (%s)",
+  (interpolation) => {
+    const segments = randomSegments(400, 42);
+    const index = createSegmentIndex(segments, undefined, interpolation);
+
+    it.each(QUERIES)("nearest / kNearest at %f, %f", (lon, lat) => {
+      const brute = segments
+        .map((_, i) => ({
+          i,
+          d: distanceTo(segments, i, lon, lat, interpolation),
+        }))
+        .sort((x, y) => x.d - y.d);
+      const nearest = index.nearest(lon, lat);
+      expect(nearest?.segmentIndex).toBe(brute[0].i);
+      expect(nearest?.distMeters).toBeCloseTo(brute[0].d, 3);
+
+      const k = index.kNearest(lon, lat, 10);
+      expect(k.map((m) => m.segmentIndex)).toEqual(
+        brute.slice(0, 10).map((b) => b.i)
+      );
+
+      const radius = brute[25].d;
+      const within = index.withinRadius(lon, lat, radius);
+      expect(within.map((m) => m.segmentIndex)).toEqual(
+        brute.filter((b) => b.d <= radius).map((b) => b.i)
+      );
+      expect(index.nearest(lon, lat, brute[0].d * 0.99)).toBeNull();
+    });
+
+    it.each<[Bbox]>([
+      [[175, 0, 180, 20]],
+      [[178, -25, -175, 25]], // across the antimeridian
+      [[-182, -25, -178, 25]],
+      [[0, 50, 20, 70]],
+      [[-180, -90, 180, 90]],
+    ])("search %j", (bbox) => {
+      const ids = index.search(bbox).map((seg) => seg.id);
+      expect([...ids].sort()).toEqual(bruteSearch(segments, bbox).sort());
+    });
+  }
+);
+
+describe("long segments", () => {
+  const arc = segment(0, [-60, 50], [60, 50]);
+  const other = segment(1, [0, 75], [1, 75]);
+
+  it("finds a great-circle arc that bulges past its endpoints", () => {
+    const index = createSegmentIndex([arc, other], undefined, "geodesic");
+    const match = index.nearest(0, 68);
+    expect(match?.segmentIndex).toBe(0);
+    expect(match?.lat).toBeCloseTo(67.24, 2);
+  });
+
+  it("snaps linear segments onto the drawn lon/lat line", () => {
+    const index = createSegmentIndex([arc, other], undefined, "linear");
+    const match = index.nearest(0, 51);
+    expect(match?.segmentIndex).toBe(0);
+    expect(match?.lat).toBeCloseTo(50, 6);
+    expect(match?.lon).toBeCloseTo(0, 6);
+  });
+});
+
+describe("createSpatialIndex", () => {
+  it("keeps every item when many share a Hilbert cell", () => {
+    const boxes = Array.from({ length: 1000 }, () => [1, 1, 1, 1]).flat();
+    const tree = createSpatialIndex(boxes, 4);
+    expect(tree.search([0, 0, 2, 2]).sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 1000 }, (_, i) => i)
+    );
+  });
+
+  it("answers the same queries from its data arrays", () => {
+    const rnd = random(7);
+    const boxes: number[] = [];
+    for (let i = 0; i < 300; i++) {
+      const x = rnd() * 360 - 180;
+      const y = rnd() * 160 - 80;
+      boxes.push(x, y, x + rnd(), y + rnd());
+    }
+    const tree = createSpatialIndex(boxes);
+    const copy = spatialIndexFromData(structuredClone(tree.data));
+    const bbox: Bbox = [-20, -20, 40, 30];
+    expect(copy.search(bbox).sort()).toEqual(tree.search(bbox).sort());
+    const distance = (id: number) =>
+      Math.hypot(boxes[4 * id], boxes[4 * id + 1]);
+    expect(copy.neighbors(0, 0, { k: 5, distance })).toEqual(
+      tree.neighbors(0, 0, { k: 5, distance })
+    );
+  });
+
+  it("handles empty and single-item trees", () => {
+    expect(createSpatialIndex([]).search([-180, -90, 180, 90])).toEqual([]);
+    const one = createSpatialIndex([5, 5, 6, 6]);
+    expect(one.search([0, 0, 10, 10])).toEqual([0]);
+    expect(one.neighbors(0, 0, { distance: () => 42 })).toEqual([
+      { id: 0, distMeters: 42 },
+    ]);
+  });
+});
@@ -0,0 +1,334 @@
+// Static packed R-tree over lon/lat bounding boxes (Hilbert-sorted, flat typed
+// arrays) with bbox search and best-first nearest-neighbour queries in meters.
+// Items are identified by their position in the input; what an item is and
+// its exact distance to a query point are up to the caller.
+
+export interface SpatialNeighbor {
+  id: number; // item index in the input boxes
+  distMeters: number;
+}
+
+export interface NeighborOptions {
+  k?: number; // max results (default all within maxMeters)
+  maxMeters?: number; // default unlimited
+  // Exact distance from the query point to an item; must be >= the distance
+  // to the item's bounding box
+  distance: (id: number) => number;
+}
+
+// Flat tree arrays; plain data, so it can be posted to / from a worker
+export interface SpatialIndexData {
+  numItems: number;
+  nodeSize: number;
+  levelBounds: number[]; // end position of each level, leaves first
+  boxes: Float64Array; // [minLon, minLat, maxLon, maxLat] per item and node
+  indices: Uint32Array; // items: input id; nodes: position of the first child
+}
+
+export interface SpatialIndex {
+  numItems: number;
+  data: SpatialIndexData;
+  search: (bbox: [number, number, number, number]) => number[];
+  neighbors: (
+    lon: number,
+    lat: number,
+    options: NeighborOptions
+  ) => SpatialNeighbor[];
+}
+
+const EARTH_RADIUS_M = 6371000;
+const RAD = Math.PI / 180;
+const HILBERT_BITS = 10; // 1024 x 1024 cells; ties keep input order
+const ID_SPACE = 2 ** 32;
+
+const mod360 = (x: number) => ((x % 360) + 360) % 360;
+
+// Position along a Hilbert curve of a cell in a (2^bits)^2 grid
+function hilbert(x: number, y: number, bits: number) {
+  const n = 1 << bits;
+  let d = 0;
+  for (let s = n >> 1; s > 0; s >>= 1) {
+    const rx = x & s ? 1 : 0;
+    const ry = y & s ? 1 : 0;
+    d += s * s * ((3 * rx) ^ ry);
+    if (ry === 0) {
+      if (rx === 1) {
+        x = n - 1 - x;
+        y = n - 1 - y;
+      }
+      const t = x;
+      x = y;
+      y = t;
+    }
+  }
+  return d;
+}
+
+const hav = (x: number) => {
+  const s = Math.sin(x / 2);
+  return s * s;
+};
+
+// Haversine of the angle between (lat1, 0) and (lat2, dLon), radians
+const havDist = (
+  havDLon: number,
+  cosLat1: number,
+  lat1: number,
+  lat2: number
+) => hav(lat2 - lat1) + cosLat1 * Math.cos(lat2) * havDLon;
+
+const havToMeters = (h: number) =>
+  2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(Math.min(1, h)));
+
+// Great-circle distance from a point to the closest point of a lon/lat box
+// (degrees); boxes may extend past +-180
+function boxDistanceMeters(
+  lon: number,
+  lat: number,
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number
+) {
+  const width = maxX - minX;
+  const fromWest = mod360(lon - minX);
+  if (width >= 360 || fromWest <= width) {
+    // straight north / south along the meridian
+    if (lat < minY) return (minY - lat) * RAD * EARTH_RADIUS_M;
+    if (lat > maxY) return (lat - maxY) * RAD * EARTH_RADIUS_M;
+    return 0;
+  }
+  // otherwise the closest point is on the nearer meridian edge
+  const dLon = Math.min(mod360(lon - maxX), 360 - fromWest) * RAD;
+  const phi = lat * RAD;
+  const cosPhi = Math.cos(phi);
+  const havDLon = hav(dLon);
+  const lo = minY * RAD;
+  const hi = maxY * RAD;
+  if (dLon < Math.PI / 2) {
+    // latitude on that meridian closest to the point
+    const extremum = Math.atan(Math.tan(phi) / Math.cos(dLon));
+    if (extremum > lo && extremum < hi) {
+      return havToMeters(havDist(havDLon, cosPhi, phi, extremum));
+    }
+  }
+  return havToMeters(
+    Math.min(
+      havDist(havDLon, cosPhi, phi, lo),
+      havDist(havDLon, cosPhi, phi, hi)
+    )
+  );
+}
+
+// Binary min-heap of (id, value) pairs
+function createQueue() {
+  const ids: number[] = [];
+  const values: number[] = [];
+  return {
+    get size() {
+      return ids.length;
+    },
+    push(id: number, value: number) {
+      let i = ids.length;
+      ids.push(id);
+      values.push(value);
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (values[parent] <= value) break;
+        ids[i] = ids[parent];
+        values[i] = values[parent];
+        i = parent;
+      }
+      ids[i] = id;
+      values[i] = value;
+    },
+    // smallest value first; call only when size > 0
+    pop(): [number, number] {
+      const top: [number, number] = [ids[0], values[0]];
+      const lastId = ids.pop() as number;
+      const lastValue = values.pop() as number;
+      const n = ids.length;
+      if (n) {
+        let i = 0;
+        for (;;) {
+          let child = 2 * i + 1;
+          if (child >= n) break;
+          if (child + 1 < n && values[child + 1] < values[child]) child++;
+          if (values[child] >= lastValue) break;
+          ids[i] = ids[child];
+          values[i] = values[child];
+          i = child;
+        }
+        ids[i] = lastId;
+        values[i] = lastValue;
+      }
+      return top;
+    },
+  };
+}
+
+// `boxes` holds [minLon, minLat, maxLon, maxLat] per item
+export function createSpatialIndex(
+  boxes: ArrayLike<number>,
+  nodeSize = 16
+): SpatialIndex {
+  const numItems = Math.floor(boxes.length / 4);
+  // level sizes bottom-up; levelBounds[l] is the end position of level l
+  const levelBounds: number[] = [numItems];
+  let count = numItems;
+  let numNodes = numItems;
+  while (count > 1) {
+    count = Math.ceil(count / nodeSize);
+    numNodes += count;
+    levelBounds.push(numNodes);
+  }
+  const tree = new Float64Array(numNodes * 4);
+  const indices = new Uint32Array(numNodes);
+
+  if (numItems) {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (let i = 0; i < numItems; i++) {
+      minX = Math.min(minX, boxes[4 * i]);
+      minY = Math.min(minY, boxes[4 * i + 1]);
+      maxX = Math.max(maxX, boxes[4 * i + 2]);
+      maxY = Math.max(maxY, boxes[4 * i + 3]);
+    }
+    const cells = (1 << HILBERT_BITS) - 1;
+    const w = maxX - minX || 1;
+    const h = maxY - minY || 1;
+    const keys = new Float64Array(numItems);
+    for (let i = 0; i < numItems; i++) {
+      const cx = (boxes[4 * i] + boxes[4 * i + 2]) / 2;
+      const cy = (boxes[4 * i + 1] + boxes[4 * i + 3]) / 2;
+      const hx = Math.floor((cells * (cx - minX)) / w);
+      const hy = Math.floor((cells * (cy - minY)) / h);
+      keys[i] = hilbert(hx, hy, HILBERT_BITS) * ID_SPACE + i;
+    }
+    keys.sort();
+    for (let pos = 0; pos < numItems; pos++) {
+      const id = keys[pos] % ID_SPACE;
+      indices[pos] = id;
+      for (let j = 0; j < 4; j++) tree[4 * pos + j] = boxes[4 * id + j];
+    }
+    // parents: union of up to nodeSize consecutive children
+    let pos = numItems;
+    for (let l = 0; l < levelBounds.length - 1; l++) {
+      const start = l ? levelBounds[l - 1] : 0;
+      const end = levelBounds[l];
+      for (let c = start; c < end; c += nodeSize) {
+        let nMinX = Infinity;
+        let nMinY = Infinity;
+        let nMaxX = -Infinity;
+        let nMaxY = -Infinity;
+        for (let j = c; j < Math.min(c + nodeSize, end); j++) {
+          nMinX = Math.min(nMinX, tree[4 * j]);
+          nMinY = Math.min(nMinY, tree[4 * j + 1]);
+          nMaxX = Math.max(nMaxX, tree[4 * j + 2]);
+          nMaxY = Math.max(nMaxY, tree[4 * j + 3]);
+        }
+        tree[4 * pos] = nMinX;
+        tree[4 * pos + 1] = nMinY;
+        tree[4 * pos + 2] = nMaxX;
+        tree[4 * pos + 3] = nMaxY;
+        indices[pos] = c;
+        pos++;
+      }
+    }
+  }
+
+  return spatialIndexFromData({
+    numItems,
+    nodeSize,
+    levelBounds,
+    boxes: tree,
+    indices,
+  });
+}
+
+// Rebuilds the query functions around existing tree arrays (e.g. received
+// from a worker) without sorting again
+export function spatialIndexFromData(data: SpatialIndexData): SpatialIndex {
+  const { numItems, nodeSize, levelBounds, boxes: tree, indices } = data;
+  const numNodes = indices.length;
+
+  // End of the level a child position belongs to
+  const levelEnd = (pos: number) => {
+    for (const bound of levelBounds) if (pos < bound) return bound;
+    return numNodes;
+  };
+  const children = (pos: number): [number, number] => {
+    const first = indices[pos];
+    return [first, Math.min(first + nodeSize, levelEnd(first))];
+  };
+
+  const search = ([w, s, e, n]: [number, number, number, number]) => {
+    const found = new Set<number>();
+    if (!numItems) return [];
+    const east = e < w ? e + 360 : e;
+    // try every world copy of the box that overlaps the data
+    const root = 4 * (numNodes - 1);
+    const first = Math.floor((tree[root] - east) / 360);
+    const last = Math.ceil((tree[root + 2] - w) / 360);
+    for (let copy = first; copy <= last; copy++) {
+      const x0 = w + copy * 360;
+      const x1 = east + copy * 360;
+      const stack = [numNodes - 1];
+      while (stack.length) {
+        const pos = stack.pop() as number;
+        if (
+          tree[4 * pos + 2] < x0 ||
+          tree[4 * pos] > x1 ||
+          tree[4 * pos + 3] < s ||
+          tree[4 * pos + 1] > n
+        )
+          continue;
+        if (pos < numItems) {
+          found.add(indices[pos]);
+          continue;
+        }
+        const [from, to] = children(pos);
+        for (let c = from; c < to; c++) stack.push(c);
+      }
+    }
+    return Array.from(found);
+  };
+
+  const neighbors = (lon: number, lat: number, options: NeighborOptions) => {
+    const { k = Infinity, maxMeters = Infinity, distance } = options;
+    const out: SpatialNeighbor[] = [];
+    if (!numItems || k <= 0) return out;
+    const queue = createQueue();
+    const root = numNodes - 1;
+    queue.push(root, root < numItems ? distance(indices[root]) : 0);
+    while (queue.size && out.length < k) {
+      const [pos, dist] = queue.pop();
+      if (dist > maxMeters) break;
+      if (pos < numItems) {
+        // exact distance, everything still queued is at least this far
+        out.push({ id: indices[pos], distMeters: dist });
+        continue;
+      }
+      const [from, to] = children(pos);
+      for (let c = from; c < to; c++) {
+        const d =
+          c < numItems
+            ? distance(indices[c])
+            : boxDistanceMeters(
+                lon,
+                lat,
+                tree[4 * c],
+                tree[4 * c + 1],
+                tree[4 * c + 2],
+                tree[4 * c + 3]
+              );
+        if (d <= maxMeters) queue.push(c, d);
+      }
+    }
+    return out;
+  };
+
+  return { numItems, search, neighbors, data };
+}
@@ -0,0 +1,127 @@
+// Stop detection at the track ends, between back-to-back stops and around
+// the minimum duration, and collapsing stops to arrival / departure fixes.
+
+import { describe, expect, it } from "vitest";
+import type { Point } from "./hotline";
+import { collapseStops, detectStops } from "./stopDetection";
+
+const MIN = 60_000;
+const T0 = Date.parse("2024-05-01T10:00:00Z");
+const M = 1 / 111_195; // about one meter of latitude in degrees
+
+// One fix a minute: [lat offset in meters, speed km/h]
+function track(fixes: [number, number][]): Point[] {
+  return fixes.map(([meters, speed], i) => ({
+    lon: 8,
+    lat: 47 + meters * M,
+    speed,
+    timestamp: T0 + i * MIN,
+  }));
+}
+
+const span = (points: Point[]) =>
+  detectStops(points).map((s) => [s.startIndex, s.endIndex]);
+
+describe("detectStops", () => {
+  it("finds a stop at the start and one at the end of the track", () => {
+    const points = track([
+      [0, 0],
+      [5, 1],
+      [2, 0],
+      [500, 40],
+      [1000, 40],
+      [1500, 0],
+      [1510, 2],
+      [1505, 0],
+    ]);
+    const stops = detectStops(points);
+    expect(stops.map((s) => [s.startIndex, s.endIndex])).toEqual([
+      [0, 2],
+      [5, 7],
+    ]);
+    expect(stops[0]).toMatchObject({
+      id: "stop-0",
+      start: T0,
+      end: T0 + 2 * MIN,
+      durationMs: 2 * MIN,
+    });
+    expect(stops[0].lat).toBeCloseTo(47 + (7 / 3) * M, 9);
+    expect(stops[1].id).toBe("stop-1");
+  });
+
+  it("splits back-to-back stops that are farther apart than the radius", () => {
+    const points = track([
+      [0, 0],
+      [10, 0],
+      [0, 0],
+      [200, 2],
+      [210, 0],
+      [200, 1],
+    ]);
+    expect(span(points)).toEqual([
+      [0, 2],
+      [3, 5],
+    ]);
+  });
+
+  it("ignores an idle just under the minimum duration", () => {
+    const points = track([
+      [0, 30],
+      [100, 0],
+      [100, 0],
+      [300, 30],
+    ]);
+    points[2].timestamp = points[1].timestamp + 2 * MIN - 1;
+    expect(detectStops(points)).toEqual([]);
+    points[2].timestamp += 1;
+    expect(span(points)).toEqual([[1, 2]]);
+    expect(detectStops(points, { minDurationMs: 2 * MIN + 1 })).toEqual([]);
+  });
+
+  it("keeps a stop whose centroid sits on the antimeridian", () => {
+    const points: Point[] = [179.9998, -179.9998, 179.9999].map((lon, i) => ({
+      lon,
+      lat: 0,
+      speed: 0,
+      timestamp: T0 + i * MIN,
+    }));
+    const [stop] = detectStops(points);
+    expect(stop.endIndex).toBe(2);
+    expect(Math.abs(stop.lon)).toBeGreaterThan(179.999);
+  });
+});
+
+describe("collapseStops", () => {
+  it("replaces every stop with arrival and departure at its centroid", () => {
+    const points = track([
+      [0, 0],
+      [5, 1],
+      [2, 0],
+      [500, 40],
+      [1500, 0],
+      [1510, 2],
+      [1505, 0],
+    ]);
+    const stops = detectStops(points);
+    const collapsed = collapseStops(points, stops);
+    expect(collapsed).toHaveLength(5);
+    expect(collapsed.map((p) => p.timestamp)).toEqual([
+      T0,
+      T0 + 2 * MIN,
+      T0 + 3 * MIN,
+      T0 + 4 * MIN,
+      T0 + 6 * MIN,
+    ]);
+    expect(collapsed[0]).toMatchObject({ lat: stops[0].lat, speed: 0 });
+    expect(collapsed[2]).toBe(points[3]);
+    expect(collapsed[4]).toMatchObject({ lat: stops[1].lat, speed: 0 });
+  });
+
+  it("returns the input when there is nothing to collapse", () => {
+    const points = track([
+      [0, 10],
+      [100, 10],
+    ]);
+    expect(collapseStops(points, [])).toBe(points);
+  });
+});
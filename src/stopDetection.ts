@@ -0,0 +1,95 @@
+// Stop / idle detection over Point[]: runs of slow fixes that stay within a
+// radius for at least a minimum duration. Stops can be collapsed so the
+// hotline does not turn into a blob where points pile up.
+
+import type { Point } from "./hotline";
+import { haversineKm, wrapLongitude } from "./hotline";
+
+export interface StopDetectionOptions {
+  speedThreshold?: number; // km/h; faster fixes end a stop (default 3)
+  minDurationMs?: number; // shorter idles are ignored (default 2 min)
+  radiusMeters?: number; // max distance from the stop centroid (default 50)
+}
+
+export interface Stop {
+  id: string;
+  lon: number; // centroid
+  lat: number;
+  start: number; // ms epoch
+  end: number;
+  durationMs: number;
+  startIndex: number; // first point of the stop (inclusive)
+  endIndex: number; // last point of the stop (inclusive)
+}
+
+export function detectStops(
+  points: Point[],
+  options: StopDetectionOptions = {}
+): Stop[] {
+  const {
+    speedThreshold = 3,
+    minDurationMs = 120_000,
+    radiusMeters = 50,
+  } = options;
+  const radiusKm = radiusMeters / 1000;
+  const stops: Stop[] = [];
+  let i = 0;
+  while (i < points.length) {
+    if (!(points[i].speed <= speedThreshold)) {
+      i++;
+      continue;
+    }
+    let sumLon = points[i].lon;
+    let sumLat = points[i].lat;
+    let j = i + 1;
+    while (j < points.length) {
+      const p = points[j];
+      const n = j - i;
+      const centroid: [number, number] = [sumLon / n, sumLat / n];
+      if (!(p.speed <= speedThreshold)) break;
+      if (haversineKm(centroid, [p.lon, p.lat]) > radiusKm) break;
+      // average on the centroid's side of the antimeridian
+      sumLon += centroid[0] + wrapLongitude(p.lon - centroid[0]);
+      sumLat += p.lat;
+      j++;
+    }
+    const endIndex = j - 1;
+    const start = points[i].timestamp;
+    const end = points[endIndex].timestamp;
+    if (end - start >= minDurationMs) {
+      const n = endIndex - i + 1;
+      stops.push({
+        id: `stop-${stops.length}`,
+        lon: wrapLongitude(sumLon / n),
+        lat: sumLat / n,
+        start,
+        end,
+        durationMs: end - start,
+        startIndex: i,
+        endIndex,
+      });
+    }
+    i = j;
+  }
+  return stops;
+}
+
+// Replaces the points of every stop with two fixes at its centroid (arrival
+// and departure, speed 0), keeping timing intact for playback and stats.
+export function collapseStops(points: Point[], stops: Stop[]): Point[] {
+  if (!stops.length) return points;
+  const out: Point[] = [];
+  let next = 0;
+  for (const stop of stops) {
+    for (let k = next; k < stop.startIndex; k++) out.push(points[k]);
+    const first = points[stop.startIndex];
+    const last = points[stop.endIndex];
+    const at = { lon: stop.lon, lat: stop.lat, speed: 0 };
+    out.push({ ...first, ...at, timestamp: stop.start });
+    if (stop.end > stop.start)
+      out.push({ ...last, ...at, timestamp: stop.end });
+    next = stop.endIndex + 1;
+  }
+  for (let k = next; k < points.length; k++) out.push(points[k]);
+  return out;
+}
@@ -0,0 +1,143 @@
+// Cutting a build at times: window edges mid-segment, inside a gap and
+// outside the track, for slices, driven / remaining splits and positions.
+
+import { describe, expect, it } from "vitest";
+import {
+  buildSegments,
+  cutSegment,
+  interpolateAtTime,
+  sliceBuildResultByTime,
+  splitSegmentsAtTime,
+  type Point,
+} from "./hotline";
+
+const S = 1000;
+
+// 0.001° east every 10 s, speed 10, 20, ...; a 10 min gap after the third fix
+const POINTS: Point[] = [0, 10, 20, 620, 630].map((s, i) => ({
+  lon: i * 0.001,
+  lat: 0,
+  speed: 10 * (i + 1),
+  timestamp: s * S,
+}));
+const BUILD = buildSegments(POINTS, {
+  subdivisions: 1,
+  gaps: { maxTimeGapMs: 60 * S },
+});
+const SEGMENTS = BUILD.segments;
+
+describe("cutSegment", () => {
+  it("interpolates path, values and times at both fractions", () => {
+    const cut = cutSegment(SEGMENTS[0], 0.25, 0.75);
+    expect(cut.path[0][0]).toBeCloseTo(0.00025, 9);
+    expect(cut.path[1][0]).toBeCloseTo(0.00075, 9);
+    expect([cut.time0, cut.time1, cut.timestamp]).toEqual([
+      2.5 * S,
+      7.5 * S,
+      5 * S,
+    ]);
+    expect([cut.speed0, cut.speed1, cut.speed]).toEqual([12.5, 17.5, 15]);
+    expect(cut.value).toBe(cut.speed);
+  });
+});
+
+describe("sliceBuildResultByTime", () => {
+  it("cuts segments where the window edges fall mid-segment", () => {
+    const slice = sliceBuildResultByTime(BUILD, 5 * S, 15 * S);
+    expect(slice.segments.map((s) => [s.time0, s.time1])).toEqual([
+      [5 * S, 10 * S],
+      [10 * S, 15 * S],
+    ]);
+    expect(slice.segments[0].path[0][0]).toBeCloseTo(0.0005, 9);
+    expect(slice.minValue).toBe(slice.segments[0].value);
+    expect(slice.maxValue).toBe(slice.segments[1].value);
+    expect(slice.bbox?.[0]).toBeCloseTo(0.0005, 9);
+    expect(slice.index.nearest(0, 0)?.segmentIndex).toBe(0);
+  });
+
+  it("stops at the gap when an edge falls inside it", () => {
+    const slice = sliceBuildResultByTime(BUILD, 15 * S, 300 * S);
+    expect(slice.segments.map((s) => [s.time0, s.time1])).toEqual([
+      [15 * S, 20 * S],
+    ]);
+    // only gaps wholly inside the window are kept
+    expect(slice.gaps).toEqual([]);
+    expect(sliceBuildResultByTime(BUILD, 0, 700 * S).gaps).toEqual(BUILD.gaps);
+    expect(sliceBuildResultByTime(BUILD, 100 * S, 200 * S).segments).toEqual(
+      []
+    );
+  });
+
+  it("clamps windows reaching outside the track and rejects empty ones", () => {
+    const all = sliceBuildResultByTime(BUILD, -100 * S, 1000 * S);
+    expect(all.segments).toEqual(SEGMENTS);
+    expect(sliceBuildResultByTime(BUILD, 700 * S, 800 * S).segments).toEqual(
+      []
+    );
+    const empty = sliceBuildResultByTime(BUILD, 10 * S, 10 * S, {
+      minValueOverride: 0,
+      maxValueOverride: 50,
+    });
+    expect(empty.segments).toEqual([]);
+    expect([empty.minValue, empty.maxValue]).toEqual([0, 50]);
+  });
+});
+
+describe("splitSegmentsAtTime", () => {
+  it("cuts the segment containing the time", () => {
+    const { driven, remaining } = splitSegmentsAtTime(SEGMENTS, 15 * S);
+    expect(driven.map((s) => [s.time0, s.time1])).toEqual([
+      [0, 10 * S],
+      [10 * S, 15 * S],
+    ]);
+    expect(remaining.map((s) => [s.time0, s.time1])).toEqual([
+      [15 * S, 20 * S],
+      [620 * S, 630 * S],
+    ]);
+  });
+
+  it("splits between whole segments at a shared point or inside a gap", () => {
+    const atPoint = splitSegmentsAtTime(SEGMENTS, 10 * S);
+    expect(atPoint.driven).toEqual([SEGMENTS[0]]);
+    expect(atPoint.remaining).toEqual(SEGMENTS.slice(1));
+    const inGap = splitSegmentsAtTime(SEGMENTS, 300 * S);
+    expect(inGap.driven).toEqual(SEGMENTS.slice(0, 2));
+    expect(inGap.remaining).toEqual(SEGMENTS.slice(2));
+  });
+
+  it("puts everything on one side outside the track", () => {
+    expect(splitSegmentsAtTime(SEGMENTS, -S)).toEqual({
+      driven: [],
+      remaining: SEGMENTS,
+    });
+    expect(splitSegmentsAtTime(SEGMENTS, 1000 * S)).toEqual({
+      driven: SEGMENTS,
+      remaining: [],
+    });
+    expect(splitSegmentsAtTime([], 0)).toEqual({ driven: [], remaining: [] });
+  });
+});
+
+describe("interpolateAtTime", () => {
+  it("interpolates position and speed mid-segment", () => {
+    const pos = interpolateAtTime(SEGMENTS, 2.5 * S);
+    expect(pos?.lon).toBeCloseTo(0.00025, 9);
+    expect(pos?.speed).toBeCloseTo(12.5, 9);
+    expect(pos?.heading).toBeCloseTo(90, 6);
+    expect(pos?.segmentIndex).toBe(0);
+  });
+
+  it("waits at the start of the next segment inside a gap", () => {
+    const pos = interpolateAtTime(SEGMENTS, 300 * S);
+    expect(pos?.segmentIndex).toBe(2);
+    expect(pos?.lon).toBeCloseTo(0.003, 9);
+    expect(pos?.timestamp).toBe(620 * S);
+  });
+
+  it("clamps to the track ends and rejects bad input", () => {
+    expect(interpolateAtTime(SEGMENTS, -S)?.lon).toBe(0);
+    expect(interpolateAtTime(SEGMENTS, 1000 * S)?.lon).toBeCloseTo(0.004, 9);
+    expect(interpolateAtTime(SEGMENTS, NaN)).toBeNull();
+    expect(interpolateAtTime([], 0)).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+// Track cleaning: each gap rule on its own and in buildSegments, and outlier
+// rejection of single spikes versus real jumps.
+
+import { describe, expect, it } from "vitest";
+import {
+  buildSegments,
+  filterOutliers,
+  splitTrackAtGaps,
+  type GapRules,
+  type Point,
+} from "./hotline";
+
+const S = 1000;
+const T0 = Date.parse("2024-05-01T10:00:00Z");
+
+// [lat, seconds since T0]; lon stays 0
+function track(fixes: [number, number][]): Point[] {
+  return fixes.map(([lat, s]) => ({
+    lon: 0,
+    lat,
+    speed: 10,
+    timestamp: T0 + s * S,
+  }));
+}
+
+describe("splitTrackAtGaps", () => {
+  const points = track([
+    [0, 0],
+    [0.001, 10], // ~40 km/h
+    [0.002, 100], // 90 s pause
+    [0.01, 110], // ~890 m jump at ~320 km/h
+    [0.011, 120],
+  ]);
+  const sizes = (rules: GapRules) =>
+    splitTrackAtGaps(points, rules).map((part) => part.length);
+
+  it.each<[GapRules, number[]]>([
+    [{}, [5]],
+    [{ maxTimeGapMs: 60 * S }, [2, 3]],
+    [{ maxTimeGapMs: 90 * S }, [5]], // the limit itself is no gap
+    [{ maxDistanceMeters: 500 }, [3, 2]],
+    [{ maxSpeedKmh: 200 }, [3, 2]],
+    [{ maxSpeedKmh: 30 }, [1, 2, 1, 1]],
+    [{ maxTimeGapMs: 60 * S, maxDistanceMeters: 500 }, [2, 1, 2]],
+  ])("%j -> parts of %j", (rules, expected) => {
+    expect(sizes(rules)).toEqual(expected);
+  });
+
+  it("does not treat simultaneous fixes as infinitely fast", () => {
+    const same = track([
+      [0, 0],
+      [0.001, 0],
+    ]);
+    expect(splitTrackAtGaps(same, { maxSpeedKmh: 1 })).toHaveLength(1);
+    expect(splitTrackAtGaps([], { maxTimeGapMs: 1 })).toEqual([]);
+  });
+
+  it("agrees with the gaps buildSegments reports", () => {
+    const rules = { maxTimeGapMs: 60 * S, maxDistanceMeters: 500 };
+    const build = buildSegments(points, { subdivisions: 2, gaps: rules });
+    expect(build.gaps.map((g) => [g.index, g.reason])).toEqual([
+      [1, "time"],
+      [2, "distance"],
+    ]);
+    expect(build.gaps[0]).toMatchObject({
+      time0: T0 + 10 * S,
+      time1: T0 + 100 * S,
+    });
+    // two subdivisions on each of the two drawn pairs
+    expect(build.segments.map((s) => s.id)).toEqual([
+      "0-0",
+      "0-1",
+      "3-0",
+      "3-1",
+    ]);
+  });
+});
+
+describe("filterOutliers", () => {
+  it("drops a single spike and keeps the fixes around it", () => {
+    const points = track([
+      [0, 0],
+      [0.001, 10],
+      [0.1, 20], // ~11 km in 10 s
+      [0.002, 30],
+      [0.003, 40],
+    ]);
+    const { points: kept, rejected } = filterOutliers(points, 200);
+    expect(rejected).toEqual([2]);
+    expect(kept.map((p) => p.lat)).toEqual([0, 0.001, 0.002, 0.003]);
+  });
+
+  it("keeps a real jump the following fixes confirm", () => {
+    const points = track([
+      [0, 0],
+      [0.001, 10],
+      [0.1, 20],
+      [0.101, 30],
+    ]);
+    expect(filterOutliers(points, 200).rejected).toEqual([]);
+  });
+
+  it("drops a spike at the end of the track", () => {
+    const points = track([
+      [0, 0],
+      [0.001, 10],
+      [0.1, 20],
+    ]);
+    expect(filterOutliers(points, 200).rejected).toEqual([2]);
+  });
+
+  it("rejects a jump between simultaneous fixes but not a repeat", () => {
+    const points = track([
+      [0, 0],
+      [0, 0],
+      [0.001, 0],
+      [0.001, 10],
+    ]);
+    expect(filterOutliers(points, 200).rejected).toEqual([2]);
+  });
+});
@@ -0,0 +1,137 @@
+// Multiple hotline tracks (fleet view): per-track styling, shared or
+// independent color range and select / highlight / dim state.
+
+import type {
+  BuildResult,
+  BuildSegmentsOptions,
+  NearestResult,
+  Point,
+  RGBA,
+} from "./hotline";
+import type { ColorInput, ColorScaleOptions, PaletteName } from "./colorScale";
+import { buildSegments, createSpeedColorScale } from "./hotline";
+
+export interface TrackInput {
+  id: string;
+  label?: string;
+  points: Point[];
+  colors?: ColorInput[] | PaletteName; // overrides collection colors
+  width?: number; // px, overrides collection width
+}
+
+export interface TrackCollectionOptions extends BuildSegmentsOptions {
+  colors?: ColorInput[] | PaletteName; // default color stops for all tracks
+  colorScale?: ColorScaleOptions; // stops, classes, mode, interpolation
+  width?: number; // default width px (6)
+  rangeMode?: "shared" | "independent"; // min/max across all tracks or per track (default shared)
+}
+
+export interface BuiltTrack {
+  id: string;
+  label: string;
+  width: number;
+  colors: ColorInput[] | PaletteName;
+  result: BuildResult;
+  colorScale: (value: number) => RGBA;
+}
+
+export interface TrackCollection {
+  tracks: BuiltTrack[];
+  byId: Record<string, BuiltTrack>;
+  minValue: number; // over all tracks
+  maxValue: number;
+}
+
+export interface TrackNearestResult extends NearestResult {
+  trackId: string;
+  label: string;
+}
+
+export function buildTrackCollection(
+  inputs: TrackInput[],
+  options: TrackCollectionOptions
+): TrackCollection {
+  const {
+    colors = [],
+    colorScale,
+    width = 6,
+    rangeMode = "shared",
+    ...buildOptions
+  } = options;
+  const built = inputs.map((t) => ({
+    input: t,
+    result: buildSegments(t.points, buildOptions),
+  }));
+  let minValue = Infinity;
+  let maxValue = -Infinity;
+  for (const { result } of built) {
+    if (!result.segments.length) continue;
+    minValue = Math.min(minValue, result.minValue);
+    maxValue = Math.max(maxValue, result.maxValue);
+  }
+  if (!Number.isFinite(minValue)) minValue = buildOptions.minValueOverride ?? 0;
+  if (!Number.isFinite(maxValue)) maxValue = buildOptions.maxValueOverride ?? 1;
+  const tracks: BuiltTrack[] = built.map(({ input, result: own }) => {
+    const result =
+      rangeMode === "shared" ? { ...own, minValue, maxValue } : own;
+    const trackColors = input.colors ?? colors;
+    return {
+      id: input.id,
+      label: input.label ?? input.id,
+      width: input.width ?? width,
+      colors: trackColors,
+      result,
+      colorScale: createSpeedColorScale(
+        result.minValue,
+        result.maxValue,
+        trackColors,
+        colorScale
+      ),
+    };
+  });
+  const byId: Record<string, BuiltTrack> = {};
+  for (const t of tracks) byId[t.id] = t;
+  return { tracks, byId, minValue, maxValue };
+}
+
+export interface TrackSelection {
+  selectedIds?: string[]; // other tracks are dimmed while any is selected
+  highlightedId?: string | null; // e.g. hovered track, drawn wider
+  hiddenIds?: string[];
+  dimOpacity?: number; // 0..1 (default 0.25)
+}
+
+export type TrackDisplayState = "normal" | "selected" | "dimmed" | "hidden";
+
+export function getTrackDisplayState(
+  trackId: string,
+  selection: TrackSelection
+): TrackDisplayState {
+  if (selection.hiddenIds?.includes(trackId)) return "hidden";
+  const selected = selection.selectedIds ?? [];
+  if (selected.includes(trackId) || selection.highlightedId === trackId)
+    return "selected";
+  return selected.length ? "dimmed" : "normal";
+}
+
+// Width and alpha multiplier (0..255) for a track in the current selection
+export function resolveTrackStyle(
+  track: BuiltTrack,
+  selection: TrackSelection
+): { visible: boolean; width: number; alpha: number } {
+  const state = getTrackDisplayState(track.id, selection);
+  switch (state) {
+    case "hidden":
+      return { visible: false, width: track.width, alpha: 0 };
+    case "selected":
+      return { visible: true, width: track.width * 1.5, alpha: 255 };
+    case "dimmed":
+      return {
+        visible: true,
+        width: track.width,
+        alpha: Math.round((selection.dimOpacity ?? 0.25) * 255),
+      };
+    default:
+      return { visible: true, width: track.width, alpha: 255 };
+  }
+}
@@ -0,0 +1,154 @@
+// @vitest-environment jsdom
+// Exporters: GPX and CSV read back through the importers, and GeoJSON paths
+// split where they cross the antimeridian.
+
+import { describe, expect, it } from "vitest";
+import type { Point, Segment } from "./hotline";
+import { parseCsv, parseGpx } from "./trackImport";
+import { pointsToCsv, pointsToGpx, segmentsToGeoJson } from "./trackExport";
+
+const T0 = Date.parse("2024-05-01T10:00:00Z");
+
+const POINTS: Point[] = [
+  { lon: 8.5, lat: 47.1, speed: 12.5, timestamp: T0 },
+  {
+    lon: 8.501,
+    lat: 47.102,
+    speed: 30,
+    timestamp: T0 + 30_000,
+    metrics: { altitude: 410, hr: 121 },
+  },
+  {
+    lon: 8.503,
+    lat: 47.105,
+    speed: 0,
+    timestamp: T0 + 61_000,
+    metrics: { altitude: 412.5 },
+  },
+];
+
+function segment(path: [number, number][]): Segment {
+  return {
+    id: "0-0",
+    path,
+    value: 10,
+    speed: 10,
+    timestamp: T0,
+    value0: 10,
+    value1: 10,
+    speed0: 10,
+    speed1: 10,
+    time0: T0,
+    time1: T0 + 1000,
+  };
+}
+
+describe("round trips", () => {
+  it("reads back its own GPX", () => {
+    const { points, errors } = parseGpx(pointsToGpx(POINTS, "a <b> & c"));
+    expect(errors).toEqual([]);
+    expect(points).toHaveLength(POINTS.length);
+    points.forEach((p, i) => {
+      const src = POINTS[i];
+      expect([p.lon, p.lat, p.timestamp]).toEqual([
+        src.lon,
+        src.lat,
+        src.timestamp,
+      ]);
+      // written as m/s with three decimals
+      expect(p.speed).toBeCloseTo(src.speed, 2);
+      expect(p.metrics?.altitude).toBe(src.metrics?.altitude);
+    });
+  });
+
+  it("reads back its own CSV, extra metrics included", () => {
+    const { points, errors } = parseCsv(pointsToCsv(POINTS));
+    expect(errors).toEqual([]);
+    expect(points.map((p) => [p.lon, p.lat, p.timestamp, p.speed])).toEqual(
+      POINTS.map((p) => [p.lon, p.lat, p.timestamp, p.speed])
+    );
+    expect(points[1].metrics).toEqual({ altitude: 410, hr: 121 });
+    expect(points[2].metrics).toEqual({ altitude: 412.5 });
+  });
+});
+
+describe("segmentsToGeoJson", () => {
+  const gray = () => [128, 128, 128, 255] as [number, number, number, number];
+
+  it("keeps a path inside one world as a LineString", () => {
+    const fc = segmentsToGeoJson(
+      {
+        segments: [
+          segment([
+            [-190, 0],
+            [-185, 1],
+          ]),
+        ],
+      },
+      gray
+    );
+    expect(fc.features[0].geometry).toEqual({
+      type: "LineString",
+      coordinates: [
+        [170, 0],
+        [175, 1],
+      ],
+    });
+    expect(fc.features[0].properties).toMatchObject({
+      hex: "#808080",
+      opacity: 1,
+      start: "2024-05-01T10:00:00.000Z",
+    });
+  });
+
+  it("splits an unwrapped path at the antimeridian", () => {
+    const east = segmentsToGeoJson(
+      {
+        segments: [
+          segment([
+            [178, 0],
+            [182, 4],
+          ]),
+        ],
+      },
+      gray
+    );
+    expect(east.features[0].geometry).toEqual({
+      type: "MultiLineString",
+      coordinates: [
+        [
+          [178, 0],
+          [180, 2],
+        ],
+        [
+          [-180, 2],
+          [-178, 4],
+        ],
+      ],
+    });
+    const west = segmentsToGeoJson(
+      {
+        segments: [
+          segment([
+            [-179, 10],
+            [-181, 12],
+          ]),
+        ],
+      },
+      gray
+    );
+    expect(west.features[0].geometry).toEqual({
+      type: "MultiLineString",
+      coordinates: [
+        [
+          [-179, 10],
+          [-180, 11],
+        ],
+        [
+          [180, 11],
+          [179, 12],
+        ],
+      ],
+    });
+  });
+});
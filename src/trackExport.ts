@@ -0,0 +1,185 @@
+// Track exporters: colored segments -> GeoJSON, source points -> GPX / CSV,
+// plus a small in-browser download helper.
+
+import type { BuildResult, Point, RGBA } from "./hotline";
+import { rgbToHex } from "./hotline";
+
+export interface SegmentFeatureProperties {
+  id: string;
+  value: number;
+  speed: number; // km/h (midpoint)
+  speed0: number;
+  speed1: number;
+  time0: number; // ms epoch
+  time1: number;
+  start: string; // ISO time0
+  end: string; // ISO time1
+  color: RGBA;
+  hex: string;
+  opacity: number; // 0..1 (alpha of color)
+}
+
+export interface SegmentFeatureCollection {
+  type: "FeatureCollection";
+  features: {
+    type: "Feature";
+    id: string;
+    geometry:
+      | { type: "LineString"; coordinates: [number, number][] }
+      | { type: "MultiLineString"; coordinates: [number, number][][] };
+    properties: SegmentFeatureProperties;
+  }[];
+}
+
+const toIso = (ms: number) =>
+  Number.isFinite(ms) ? new Date(ms).toISOString() : "";
+
+// Brings unwrapped longitudes (see unwrapLongitudes) back into [-180, 180];
+// a path crossing the antimeridian is split there (RFC 7946, 3.1.9)
+function wrapPath(path: [number, number][]): [number, number][][] {
+  const parts: [number, number][][] = [];
+  let part: [number, number][] = [];
+  let world = 0;
+  path.forEach(([lon, lat], i) => {
+    const w = Math.floor((lon + 180) / 360);
+    if (i > 0 && w !== world) {
+      const [prevLon, prevLat] = path[i - 1];
+      const east = w > world;
+      const edge = (east ? world + 1 : world) * 360 - 180;
+      const edgeLat =
+        prevLat + ((edge - prevLon) / (lon - prevLon)) * (lat - prevLat);
+      part.push([east ? 180 : -180, edgeLat]);
+      parts.push(part);
+      part = [[east ? -180 : 180, edgeLat]];
+    }
+    world = w;
+    part.push([lon - w * 360, lat]);
+  });
+  parts.push(part);
+  return parts;
+}
+
+// Every segment becomes a LineString carrying its metric, timestamps and color
+export function segmentsToGeoJson(
+  result: Pick<BuildResult, "segments">,
+  colorScale: (value: number) => RGBA
+): SegmentFeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: result.segments.map((s) => {
+      const color = colorScale(s.value);
+      const parts = wrapPath(s.path);
+      return {
+        type: "Feature",
+        id: s.id,
+        geometry:
+          parts.length === 1
+            ? { type: "LineString", coordinates: parts[0] }
+            : { type: "MultiLineString", coordinates: parts },
+        properties: {
+          id: s.id,
+          value: s.value,
+          speed: s.speed,
+          speed0: s.speed0,
+          speed1: s.speed1,
+          time0: s.time0,
+          time1: s.time1,
+          start: toIso(s.time0),
+          end: toIso(s.time1),
+          color,
+          hex: rgbToHex(color),
+          opacity: color[3] / 255,
+        },
+      };
+    }),
+  };
+}
+
+const escapeXml = (s: string) =>
+  s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// GPX 1.1 has no <speed> element, so speed (m/s) goes into the Garmin
+// TrackPointExtension; altitude is written as <ele>
+export function pointsToGpx(points: Point[], name = "track"): string {
+  const pts = points
+    .map((p) => {
+      const ele = p.metrics?.altitude;
+      return [
+        `      <trkpt lat="${p.lat}" lon="${p.lon}">`,
+        ...(Number.isFinite(ele) ? [`        <ele>${ele}</ele>`] : []),
+        `        <time>${toIso(p.timestamp)}</time>`,
+        ...(Number.isFinite(p.speed)
+          ? [
+              `        <extensions>`,
+              `          <gpxtpx:TrackPointExtension>`,
+              `            <gpxtpx:speed>${(p.speed / 3.6).toFixed(
+                3
+              )}</gpxtpx:speed>`,
+              `          </gpxtpx:TrackPointExtension>`,
+              `        </extensions>`,
+            ]
+          : []),
+        `      </trkpt>`,
+      ].join("\n");
+    })
+    .join("\n");
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="maplibre-hotline" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2">`,
+    `  <trk>`,
+    `    <name>${escapeXml(name)}</name>`,
+    `    <trkseg>`,
+    pts,
+    `    </trkseg>`,
+    `  </trk>`,
+    `</gpx>`,
+    "",
+  ].join("\n");
+}
+
+const csvCell = (v: string | number | undefined) => {
+  if (v == null || (typeof v === "number" && !Number.isFinite(v))) return "";
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+// Header: lat,lon,time,speed,<metric keys...>; readable by parseCsv
+export function pointsToCsv(points: Point[]): string {
+  const metricKeys = Array.from(
+    new Set(points.flatMap((p) => Object.keys(p.metrics ?? {})))
+  );
+  const header = ["lat", "lon", "time", "speed", ...metricKeys];
+  const rows = points.map((p) =>
+    [
+      p.lat,
+      p.lon,
+      toIso(p.timestamp),
+      p.speed,
+      ...metricKeys.map((k) => p.metrics?.[k]),
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+  return [header.map(csvCell).join(","), ...rows, ""].join("\n");
+}
+
+// Triggers a browser download of the given text content
+export function downloadText(
+  fileName: string,
+  content: string,
+  mimeType = "text/plain"
+) {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
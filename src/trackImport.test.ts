@@ -0,0 +1,292 @@
+// @vitest-environment jsdom
+// Importers on small inline files: time order, speed units / derivation and
+// the rows reported in `errors`.
+
+import { describe, expect, it } from "vitest";
+import { haversineKm } from "./hotline";
+import {
+  deriveSpeeds,
+  detectTrackFormat,
+  parseCsv,
+  parseGeoJson,
+  parseGpx,
+  parseKml,
+  parseTimestamp,
+} from "./trackImport";
+
+const T0 = Date.parse("2024-05-01T10:00:00Z");
+const iso = (s: number) => new Date(T0 + s * 1000).toISOString();
+// 0.01° of latitude in 60 s
+const KMH_PER_MINUTE = haversineKm([0, 0], [0, 0.01]) * 60;
+
+describe("parseTimestamp", () => {
+  it("reads ISO strings, epoch seconds and epoch milliseconds", () => {
+    expect(parseTimestamp(iso(0))).toBe(T0);
+    expect(parseTimestamp(T0 / 1000)).toBe(T0);
+    expect(parseTimestamp(String(T0 / 1000))).toBe(T0);
+    expect(parseTimestamp(T0)).toBe(T0);
+    expect(parseTimestamp(" ")).toBeNaN();
+    expect(parseTimestamp(null)).toBeNaN();
+  });
+});
+
+describe("deriveSpeeds", () => {
+  it("fills only missing speeds from the neighbouring fix", () => {
+    const points = [
+      { lon: 0, lat: 0, speed: NaN, timestamp: T0 },
+      { lon: 0, lat: 0.01, speed: 5, timestamp: T0 + 60_000 },
+      { lon: 0, lat: 0.02, speed: NaN, timestamp: T0 + 120_000 },
+      { lon: 0, lat: 0.02, speed: NaN, timestamp: T0 + 120_000 },
+    ];
+    expect(deriveSpeeds(points)).toBe(true);
+    expect(points[0].speed).toBeCloseTo(KMH_PER_MINUTE, 6);
+    expect(points[1].speed).toBe(5);
+    expect(points[2].speed).toBeCloseTo(KMH_PER_MINUTE, 6);
+    expect(points[3].speed).toBe(0); // no time elapsed
+    expect(deriveSpeeds(points)).toBe(false);
+  });
+});
+
+describe("parseGpx", () => {
+  it("sorts by time, converts m/s and derives missing speeds", () => {
+    const gpx = `<?xml version="1.0"?>
+      <gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1"
+        xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2">
+        <trk><trkseg>
+          <trkpt lat="0.02" lon="0"><time>${iso(120)}</time></trkpt>
+          <trkpt lat="0" lon="0"><ele>150</ele><time>${iso(0)}</time>
+            <extensions><gpxtpx:TrackPointExtension>
+              <gpxtpx:speed>10</gpxtpx:speed>
+            </gpxtpx:TrackPointExtension></extensions>
+          </trkpt>
+          <trkpt lat="0.01" lon="0">
+            <time>${iso(60)}</time><speed>5</speed>
+          </trkpt>
+        </trkseg></trk>
+      </gpx>`;
+    const { points, errors, speedDerived } = parseGpx(gpx);
+    expect(errors).toEqual([]);
+    expect(points.map((p) => p.lat)).toEqual([0, 0.01, 0.02]);
+    expect(points[0].speed).toBeCloseTo(36);
+    expect(points[0].metrics).toEqual({ altitude: 150 });
+    expect(points[1].speed).toBeCloseTo(18);
+    expect(speedDerived).toBe(true);
+    expect(points[2].speed).toBeCloseTo(KMH_PER_MINUTE, 6);
+  });
+
+  it("reports bad points by their position and keeps the rest", () => {
+    const gpx = `<gpx><trk><trkseg>
+      <trkpt lat="95" lon="0"><time>${iso(0)}</time></trkpt>
+      <trkpt lat="1" lon="1"></trkpt>
+      <trkpt lat="1" lon="1"><time>${iso(10)}</time></trkpt>
+    </trkseg></trk></gpx>`;
+    const { points, errors } = parseGpx(gpx);
+    expect(points).toHaveLength(1);
+    expect(errors).toEqual([
+      { row: 1, message: "Invalid or missing lat/lon" },
+      { row: 2, message: "Invalid or missing <time>" },
+    ]);
+  });
+
+  it("reports invalid XML and files without points", () => {
+    expect(parseGpx("<gpx>").errors).toEqual([
+      { row: 0, message: "Invalid XML document" },
+    ]);
+    expect(parseGpx("<gpx></gpx>").errors).toEqual([
+      { row: 0, message: "No track points found" },
+    ]);
+  });
+});
+
+describe("parseKml", () => {
+  it("reads gx:Track and timestamped placemarks in time order", () => {
+    const kml = `<kml xmlns="http://www.opengis.net/kml/2.2"
+        xmlns:gx="http://www.google.com/kml/ext/2.2"><Document>
+      <Placemark><gx:Track>
+        <when>${iso(60)}</when><when>${iso(120)}</when>
+        <gx:coord>0 0.01 200</gx:coord><gx:coord>0 0.02 210</gx:coord>
+      </gx:Track></Placemark>
+      <Placemark><TimeStamp><when>${iso(0)}</when></TimeStamp>
+        <Point><coordinates>0,0,190</coordinates></Point></Placemark>
+    </Document></kml>`;
+    const { points, errors } = parseKml(kml);
+    expect(errors).toEqual([]);
+    expect(points.map((p) => [p.lat, p.metrics?.altitude])).toEqual([
+      [0, 190],
+      [0.01, 200],
+      [0.02, 210],
+    ]);
+    expect(points[1].speed).toBeCloseTo(KMH_PER_MINUTE, 6);
+  });
+
+  it("reports a gx:Track whose <when> and <gx:coord> counts differ", () => {
+    const kml = `<kml xmlns:gx="http://www.google.com/kml/ext/2.2"><gx:Track>
+      <when>${iso(0)}</when><when>${iso(60)}</when>
+      <gx:coord>0 0 0</gx:coord>
+    </gx:Track></kml>`;
+    const { points, errors } = parseKml(kml);
+    expect(points).toHaveLength(1);
+    expect(errors).toEqual([
+      { row: 1, message: "gx:Track has 2 <when> but 1 <gx:coord>" },
+      { row: 2, message: 'Invalid coordinate ""' },
+    ]);
+  });
+});
+
+describe("parseGeoJson", () => {
+  it("reads LineString coordTimes and Point features in time order", () => {
+    const { points, errors } = parseGeoJson({
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          properties: { coordTimes: [iso(60), iso(120)] },
+          geometry: {
+            type: "LineString",
+            coordinates: [
+              [0, 0.01],
+              [0, 0.02, 300],
+            ],
+          },
+        },
+        {
+          type: "Feature",
+          properties: { time: iso(0), speed: 12 },
+          geometry: { type: "Point", coordinates: [0, 0] },
+        },
+      ],
+    });
+    expect(errors).toEqual([]);
+    expect(points.map((p) => p.lat)).toEqual([0, 0.01, 0.02]);
+    expect(points[0].speed).toBe(12);
+    expect(points[2].metrics).toEqual({ altitude: 300 });
+  });
+
+  it("reads MultiLineString times per line", () => {
+    const { points } = parseGeoJson(
+      JSON.stringify({
+        type: "MultiLineString",
+        coordinates: [[[0, 0]], [[0, 0.01]]],
+      })
+    );
+    expect(points).toEqual([]);
+    const feature = {
+      type: "Feature",
+      properties: { coordTimes: [[iso(0)], [iso(60)]] },
+      geometry: {
+        type: "MultiLineString",
+        coordinates: [[[0, 0]], [[0, 0.01]]],
+      },
+    };
+    expect(parseGeoJson(feature).points.map((p) => p.timestamp)).toEqual([
+      T0,
+      T0 + 60_000,
+    ]);
+  });
+
+  it("reports malformed documents without throwing", () => {
+    expect(parseGeoJson("{").errors).toHaveLength(1);
+    expect(parseGeoJson("[]").errors).toEqual([
+      { row: 0, message: "GeoJSON root must be an object" },
+    ]);
+    expect(parseGeoJson({ type: "FeatureCollection" }).errors).toEqual([
+      { row: 0, message: "FeatureCollection has no features array" },
+    ]);
+  });
+
+  it("reports feature errors by feature index and coordinates by row", () => {
+    const { points, errors } = parseGeoJson({
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          properties: { coordTimes: [iso(0), "later"] },
+          geometry: {
+            type: "LineString",
+            coordinates: [
+              [0, 0],
+              [0, 0.01],
+            ],
+          },
+        },
+        null,
+        { type: "Feature", geometry: { type: "LineString", coordinates: 1 } },
+        { type: "Feature", geometry: { type: "Polygon", coordinates: [] } },
+        { type: "Feature", geometry: "nope" },
+      ],
+    });
+    expect(points).toHaveLength(1);
+    expect(errors).toEqual([
+      { row: 2, message: "Invalid or missing time" },
+      { row: 0, feature: 2, message: "Feature is not an object" },
+      {
+        row: 0,
+        feature: 3,
+        message: "LineString coordinates must be an array",
+      },
+      { row: 0, feature: 4, message: "Unsupported geometry Polygon" },
+      { row: 0, feature: 5, message: "Feature geometry is invalid" },
+    ]);
+  });
+});
+
+describe("parseCsv", () => {
+  it("detects the delimiter and combines date + time columns", () => {
+    const csv = [
+      "Date;Time;Lat;Lon;Speed;HR",
+      "2024-05-01;10:01:00Z;0.01;0;20;120",
+      "2024-05-01;10:00:00Z;0;0;10;110",
+      "",
+    ].join("\n");
+    const { points, errors } = parseCsv(csv);
+    expect(errors).toEqual([]);
+    expect(points.map((p) => p.timestamp)).toEqual([T0, T0 + 60_000]);
+    expect(points[0].speed).toBe(10);
+    expect(points[0].metrics).toEqual({ hr: 110 });
+  });
+
+  it("prefers a full timestamp column over date / time", () => {
+    const csv = [
+      "date,time,timestamp,lat,lon",
+      `2000-01-01,00:00,${iso(0)},0,0`,
+      `2000-01-01,00:00,${iso(60)},0.01,0`,
+    ].join("\r\n");
+    const { points, speedDerived } = parseCsv(csv);
+    expect(points.map((p) => p.timestamp)).toEqual([T0, T0 + 60_000]);
+    expect(speedDerived).toBe(true);
+    expect(points[1].speed).toBeCloseTo(KMH_PER_MINUTE, 6);
+  });
+
+  it("converts the speed unit and reports bad rows by line", () => {
+    const csv = [
+      "lat\tlon\ttime\tspeed",
+      `0\t0\t${T0 / 1000}\t10`,
+      `x\t0\t${T0 / 1000 + 1}\t10`,
+      `0\t0\tsoon\t10`,
+    ].join("\n");
+    const { points, errors } = parseCsv(csv, { speedUnit: "ms" });
+    expect(points).toHaveLength(1);
+    expect(points[0].speed).toBeCloseTo(36);
+    expect(errors).toEqual([
+      { row: 3, message: "Invalid lat/lon" },
+      { row: 4, message: 'Invalid time "soon"' },
+    ]);
+  });
+
+  it("requires lat, lon and time columns", () => {
+    expect(parseCsv("lat,lon\n0,0").errors).toEqual([
+      { row: 1, message: "Header must contain lat, lon and time columns" },
+    ]);
+  });
+});
+
+describe("detectTrackFormat", () => {
+  it("uses the extension, then the content", () => {
+    expect(detectTrackFormat("", "ride.GPX")).toBe("gpx");
+    expect(detectTrackFormat("", "ride.json")).toBe("geojson");
+    expect(detectTrackFormat('  {"type":"Feature"}')).toBe("geojson");
+    expect(detectTrackFormat("<?xml?><kml>")).toBe("kml");
+    expect(detectTrackFormat("<html>")).toBeNull();
+    expect(detectTrackFormat("lat,lon,time")).toBe("csv");
+  });
+});
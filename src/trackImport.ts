@@ -0,0 +1,430 @@
+// Track importers: GPX, KML, GeoJSON and CSV -> Point[].
+// Rows that cannot be parsed are reported in `errors` (never silently dropped).
+// Missing speed is derived from distance / time between neighbouring fixes.
+
+import type { Point } from "./hotline";
+import { haversineKm } from "./hotline";
+import type { SpeedUnit } from "./units";
+import { SPEED_UNITS } from "./units";
+
+export type TrackFormat = "gpx" | "kml" | "geojson" | "csv";
+
+export interface ImportError {
+  row: number; // 1-based row / element / coordinate (0: whole file or feature)
+  feature?: number; // 1-based GeoJSON feature the error is about
+  message: string;
+}
+
+export interface ImportResult {
+  points: Point[];
+  errors: ImportError[];
+  speedDerived: boolean; // true if at least one speed was computed from distance/time
+}
+
+export type { SpeedUnit } from "./units";
+
+// Accepts ISO strings, epoch ms or epoch seconds
+export function parseTimestamp(v: unknown): number {
+  if (typeof v === "number") return v < 1e11 ? v * 1000 : v;
+  if (typeof v !== "string") return NaN;
+  const s = v.trim();
+  if (!s) return NaN;
+  if (/^-?\d+(\.\d+)?$/.test(s)) return parseTimestamp(Number(s));
+  return Date.parse(s);
+}
+
+// Fills non-finite speeds (km/h) from distance/time to the neighbouring point.
+// Returns true if any speed was derived.
+export function deriveSpeeds(points: Point[]): boolean {
+  let derived = false;
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+    if (Number.isFinite(p.speed)) continue;
+    const a = points[i - 1] ?? p;
+    const b = i > 0 ? p : points[i + 1] ?? p;
+    const hours = (b.timestamp - a.timestamp) / 3_600_000;
+    const km = haversineKm([a.lon, a.lat], [b.lon, b.lat]);
+    p.speed = hours > 0 ? km / hours : 0;
+    derived = true;
+  }
+  return derived;
+}
+
+// Every importer returns points in time order (stable for equal timestamps)
+function finish(points: Point[], errors: ImportError[]): ImportResult {
+  points.sort((a, b) => a.timestamp - b.timestamp);
+  const speedDerived = deriveSpeeds(points);
+  return { points, errors, speedDerived };
+}
+
+function validCoord(lon: number, lat: number) {
+  return (
+    Number.isFinite(lon) &&
+    Number.isFinite(lat) &&
+    Math.abs(lon) <= 180 &&
+    Math.abs(lat) <= 90
+  );
+}
+
+function parseXml(text: string): Document | null {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) return null;
+  return doc;
+}
+
+// Namespace-agnostic child lookup (gpxtpx:speed, gx:coord, ...)
+function childText(el: Element, localName: string): string | undefined {
+  const all = el.getElementsByTagName("*");
+  for (let i = 0; i < all.length; i++) {
+    if (all[i].localName === localName) return all[i].textContent ?? undefined;
+  }
+  return undefined;
+}
+
+function byLocalName(root: Document | Element, localName: string): Element[] {
+  return Array.from(root.getElementsByTagName("*")).filter(
+    (e) => e.localName === localName
+  );
+}
+
+// ---- GPX ----
+
+export function parseGpx(text: string): ImportResult {
+  const doc = parseXml(text);
+  if (!doc) return finish([], [{ row: 0, message: "Invalid XML document" }]);
+  const points: Point[] = [];
+  const errors: ImportError[] = [];
+  let nodes = byLocalName(doc, "trkpt");
+  if (!nodes.length) nodes = byLocalName(doc, "rtept");
+  nodes.forEach((el, idx) => {
+    const row = idx + 1;
+    const lat = parseFloat(el.getAttribute("lat") ?? "");
+    const lon = parseFloat(el.getAttribute("lon") ?? "");
+    if (!validCoord(lon, lat)) {
+      errors.push({ row, message: "Invalid or missing lat/lon" });
+      return;
+    }
+    const timestamp = parseTimestamp(childText(el, "time"));
+    if (!Number.isFinite(timestamp)) {
+      errors.push({ row, message: "Invalid or missing <time>" });
+      return;
+    }
+    const speedMs = parseFloat(childText(el, "speed") ?? "");
+    const ele = parseFloat(childText(el, "ele") ?? "");
+    points.push({
+      lon,
+      lat,
+      speed: Number.isFinite(speedMs) ? speedMs * 3.6 : NaN,
+      timestamp,
+      ...(Number.isFinite(ele) ? { metrics: { altitude: ele } } : {}),
+    });
+  });
+  if (!nodes.length) errors.push({ row: 0, message: "No track points found" });
+  return finish(points, errors);
+}
+
+// ---- KML ----
+
+// Supports gx:Track (<when> + <gx:coord>) and timestamped Placemark points.
+export function parseKml(text: string): ImportResult {
+  const doc = parseXml(text);
+  if (!doc) return finish([], [{ row: 0, message: "Invalid XML document" }]);
+  const points: Point[] = [];
+  const errors: ImportError[] = [];
+  let row = 0;
+  const push = (
+    coordText: string | undefined,
+    whenText: string | undefined
+  ) => {
+    row++;
+    const [lon, lat, alt] = (coordText ?? "")
+      .trim()
+      .split(/[\s,]+/)
+      .map(Number);
+    if (!validCoord(lon, lat)) {
+      errors.push({ row, message: `Invalid coordinate "${coordText ?? ""}"` });
+      return;
+    }
+    const timestamp = parseTimestamp(whenText);
+    if (!Number.isFinite(timestamp)) {
+      errors.push({ row, message: "Invalid or missing timestamp" });
+      return;
+    }
+    points.push({
+      lon,
+      lat,
+      speed: NaN,
+      timestamp,
+      ...(Number.isFinite(alt) ? { metrics: { altitude: alt } } : {}),
+    });
+  };
+  for (const track of byLocalName(doc, "Track")) {
+    const whens = byLocalName(track, "when");
+    const coords = byLocalName(track, "coord");
+    if (whens.length !== coords.length) {
+      errors.push({
+        row: row + 1,
+        message: `gx:Track has ${whens.length} <when> but ${coords.length} <gx:coord>`,
+      });
+    }
+    const n = Math.max(whens.length, coords.length);
+    for (let i = 0; i < n; i++) {
+      push(
+        coords[i]?.textContent ?? undefined,
+        whens[i]?.textContent ?? undefined
+      );
+    }
+  }
+  for (const pm of byLocalName(doc, "Placemark")) {
+    const pt = byLocalName(pm, "Point")[0];
+    if (!pt) continue;
+    push(childText(pt, "coordinates"), childText(pm, "when"));
+  }
+  if (!row)
+    errors.push({ row: 0, message: "No timestamped coordinates found" });
+  return finish(points, errors);
+}
+
+// ---- GeoJSON ----
+
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Supports LineString / MultiLineString with properties.coordTimes (or times)
+// and Point features with a time/timestamp property.
+export function parseGeoJson(input: string | object): ImportResult {
+  const points: Point[] = [];
+  const errors: ImportError[] = [];
+  let root: unknown;
+  try {
+    root = typeof input === "string" ? JSON.parse(input) : input;
+  } catch (e) {
+    return finish([], [{ row: 0, message: (e as Error).message }]);
+  }
+  if (!isObject(root)) {
+    return finish([], [{ row: 0, message: "GeoJSON root must be an object" }]);
+  }
+  if (root.type === "FeatureCollection" && !Array.isArray(root.features)) {
+    return finish(
+      [],
+      [{ row: 0, message: "FeatureCollection has no features array" }]
+    );
+  }
+  const features: unknown[] =
+    root.type === "FeatureCollection"
+      ? (root.features as unknown[])
+      : root.type === "Feature"
+      ? [root]
+      : [{ type: "Feature", geometry: root, properties: {} }];
+  let row = 0;
+  const push = (coord: unknown, time: unknown, props: Json) => {
+    row++;
+    const c = Array.isArray(coord) ? (coord as number[]) : [];
+    const [lon, lat, alt] = c;
+    if (!validCoord(lon, lat)) {
+      errors.push({ row, message: "Invalid coordinate" });
+      return;
+    }
+    const timestamp = parseTimestamp(time);
+    if (!Number.isFinite(timestamp)) {
+      errors.push({ row, message: "Invalid or missing time" });
+      return;
+    }
+    const speed = typeof props.speed === "number" ? props.speed : NaN;
+    points.push({
+      lon,
+      lat,
+      speed,
+      timestamp,
+      ...(Number.isFinite(alt) ? { metrics: { altitude: alt } } : {}),
+    });
+  };
+  features.forEach((f, fi) => {
+    const feature = fi + 1;
+    const featureError = (message: string) =>
+      errors.push({ row: 0, feature, message });
+    const badCoordinates = (type: string) =>
+      featureError(`${type} coordinates must be an array`);
+    if (!isObject(f)) {
+      featureError("Feature is not an object");
+      return;
+    }
+    const geom = f.geometry;
+    const props = isObject(f.properties) ? f.properties : {};
+    const rawTimes = props.coordTimes ?? props.times;
+    const times = Array.isArray(rawTimes) ? rawTimes : undefined;
+    if (geom == null) return;
+    if (!isObject(geom)) {
+      featureError("Feature geometry is invalid");
+    } else if (geom.type === "LineString") {
+      if (!Array.isArray(geom.coordinates)) return badCoordinates(geom.type);
+      geom.coordinates.forEach((c, i) => push(c, times?.[i], {}));
+    } else if (geom.type === "MultiLineString") {
+      if (!Array.isArray(geom.coordinates)) return badCoordinates(geom.type);
+      geom.coordinates.forEach((line: unknown, li) => {
+        if (!Array.isArray(line)) return badCoordinates(geom.type as string);
+        const lineTimes = times?.[li];
+        line.forEach((c, i) =>
+          push(c, Array.isArray(lineTimes) ? lineTimes[i] : undefined, {})
+        );
+      });
+    } else if (geom.type === "Point") {
+      push(geom.coordinates, props.timestamp ?? props.time, props);
+    } else {
+      featureError(`Unsupported geometry ${String(geom.type)}`);
+    }
+  });
+  return finish(points, errors);
+}
+
+// ---- CSV ----
+
+export interface ParseCsvOptions {
+  delimiter?: string; // auto-detected from header (, ; tab) if omitted
+  speedUnit?: SpeedUnit; // unit of the speed column (default km/h)
+}
+
+const CSV_COLUMNS = {
+  lat: ["lat", "latitude", "y"],
+  lon: ["lon", "lng", "long", "longitude", "x"],
+  // in order of preference; separate date + time columns are combined
+  time: ["timestamp", "datetime", "ts", "time", "date"],
+  speed: ["speed", "speed_kmh", "velocity"],
+};
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delimiter) {
+      out.push(cur);
+      cur = "";
+    } else cur += ch;
+  }
+  out.push(cur);
+  return out.map((v) => v.trim());
+}
+
+export function parseCsv(
+  text: string,
+  options: ParseCsvOptions = {}
+): ImportResult {
+  const lines = text.split(/\r?\n/);
+  const headerLine = lines[0] ?? "";
+  const delimiter =
+    options.delimiter ??
+    [",", ";", "\t"].reduce((best, d) =>
+      headerLine.split(d).length > headerLine.split(best).length ? d : best
+    );
+  const factor = SPEED_UNITS[options.speedUnit ?? "kmh"].toKmh;
+  const header = splitCsvLine(headerLine, delimiter).map((h) =>
+    h.toLowerCase()
+  );
+  const col = (names: string[]) => {
+    for (const name of names) {
+      const i = header.indexOf(name);
+      if (i >= 0) return i;
+    }
+    return -1;
+  };
+  const iLat = col(CSV_COLUMNS.lat);
+  const iLon = col(CSV_COLUMNS.lon);
+  const iTime = col(CSV_COLUMNS.time);
+  const iSpeed = col(CSV_COLUMNS.speed);
+  // "date" + "time" without a full timestamp column: read them together
+  const iDate = header[iTime] === "time" ? header.indexOf("date") : -1;
+  if (iLat < 0 || iLon < 0 || iTime < 0) {
+    return finish(
+      [],
+      [{ row: 1, message: "Header must contain lat, lon and time columns" }]
+    );
+  }
+  const known = new Set([iLat, iLon, iTime, iDate, iSpeed]);
+  const points: Point[] = [];
+  const errors: ImportError[] = [];
+  for (let li = 1; li < lines.length; li++) {
+    const line = lines[li];
+    if (!line.trim()) continue;
+    const row = li + 1;
+    const cells = splitCsvLine(line, delimiter);
+    const lat = parseFloat(cells[iLat]);
+    const lon = parseFloat(cells[iLon]);
+    if (!validCoord(lon, lat)) {
+      errors.push({ row, message: "Invalid lat/lon" });
+      continue;
+    }
+    const timeText =
+      iDate >= 0
+        ? `${cells[iDate] ?? ""} ${cells[iTime] ?? ""}`.trim()
+        : cells[iTime];
+    const timestamp = parseTimestamp(timeText);
+    if (!Number.isFinite(timestamp)) {
+      errors.push({ row, message: `Invalid time "${timeText ?? ""}"` });
+      continue;
+    }
+    const speedRaw = iSpeed >= 0 ? parseFloat(cells[iSpeed]) : NaN;
+    // Remaining numeric columns become named metrics
+    const metrics: Record<string, number> = {};
+    header.forEach((h, i) => {
+      if (known.has(i)) return;
+      const v = parseFloat(cells[i]);
+      if (Number.isFinite(v)) metrics[h] = v;
+    });
+    points.push({
+      lon,
+      lat,
+      speed: Number.isFinite(speedRaw) ? speedRaw * factor : NaN,
+      timestamp,
+      ...(Object.keys(metrics).length ? { metrics } : {}),
+    });
+  }
+  return finish(points, errors);
+}
+
+// ---- Dispatch ----
+
+export function detectTrackFormat(
+  text: string,
+  fileName?: string
+): TrackFormat | null {
+  const ext = fileName?.split(".").pop()?.toLowerCase();
+  if (ext === "gpx" || ext === "kml" || ext === "csv") return ext;
+  if (ext === "geojson" || ext === "json") return "geojson";
+  const head = text.trimStart().slice(0, 512);
+  if (head.startsWith("{")) return "geojson";
+  if (head.includes("<gpx")) return "gpx";
+  if (head.includes("<kml")) return "kml";
+  if (head.startsWith("<")) return null;
+  return "csv";
+}
+
+export function parseTrack(
+  text: string,
+  format?: TrackFormat,
+  fileName?: string
+): ImportResult {
+  const fmt = format ?? detectTrackFormat(text, fileName);
+  switch (fmt) {
+    case "gpx":
+      return parseGpx(text);
+    case "kml":
+      return parseKml(text);
+    case "geojson":
+      return parseGeoJson(text);
+    case "csv":
+      return parseCsv(text);
+    default:
+      return finish([], [{ row: 0, message: "Unknown track format" }]);
+  }
+}
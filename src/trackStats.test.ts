@@ -0,0 +1,114 @@
+// Trip statistics: moving / stopped / gap time, value buckets and the
+// per-period breakdowns, from points and from a build with gaps.
+
+import { describe, expect, it } from "vitest";
+import { buildSegments, haversineKm, type Point } from "./hotline";
+import { computeTripStats, formatDuration } from "./trackStats";
+
+const MIN = 60_000;
+const T0 = Date.parse("2024-05-01T10:00:00Z");
+
+// One fix a minute along the equator; `speeds` are km/h at each fix
+function track(speeds: number[], start = T0): Point[] {
+  return speeds.map((speed, i) => ({
+    lon: i * 0.01,
+    lat: 0,
+    speed,
+    timestamp: start + i * MIN,
+    metrics: { hr: 100 + i },
+  }));
+}
+
+const LEG_KM = haversineKm([0, 0], [0.01, 0]);
+
+describe("computeTripStats", () => {
+  it("splits elapsed time into moving and stopped legs", () => {
+    const stats = computeTripStats(track([10, 10, 0, 0, 20]), {
+      movingThreshold: 3,
+    });
+    // legs average their endpoint speeds: 10, 5, 0, 10
+    expect(stats.elapsedMs).toBe(4 * MIN);
+    expect(stats.movingMs).toBe(3 * MIN);
+    expect(stats.stoppedMs).toBe(MIN);
+    expect(stats.gapMs).toBe(0);
+    expect(stats.distanceKm).toBeCloseTo(4 * LEG_KM, 9);
+    expect(stats.avgMovingSpeed).toBeCloseTo(LEG_KM * 60, 6);
+    expect(stats.maxSpeed).toBe(20);
+  });
+
+  it("leaves gap time out of moving and stopped time", () => {
+    const points = [...track([10, 10, 10]), ...track([0, 0], T0 + 60 * MIN)];
+    const build = buildSegments(points, {
+      subdivisions: 1,
+      gaps: { maxTimeGapMs: 10 * MIN },
+    });
+    expect(build.gaps).toHaveLength(1);
+    const stats = computeTripStats(build);
+    expect(stats.elapsedMs).toBe(61 * MIN);
+    expect(stats.movingMs).toBe(2 * MIN);
+    expect(stats.stoppedMs).toBe(MIN);
+    expect(stats.gapMs).toBe(58 * MIN);
+    const recorded = stats.byHour.reduce((sum, p) => sum + p.durationMs, 0);
+    expect(recorded).toBe(stats.movingMs + stats.stoppedMs);
+  });
+
+  it("buckets the colored metric, not the speed", () => {
+    const build = buildSegments(track([10, 10, 10, 10]), {
+      subdivisions: 1,
+      metric: "hr",
+    });
+    const stats = computeTripStats(build, { bucketEdges: [100, 102, 110] });
+    // hr per leg: 100.5, 101.5, 102.5
+    expect(stats.buckets).toEqual([
+      {
+        from: 100,
+        to: 102,
+        durationMs: 2 * MIN,
+        distanceKm: expect.closeTo(2 * LEG_KM, 9),
+      },
+      {
+        from: 102,
+        to: 110,
+        durationMs: MIN,
+        distanceKm: expect.closeTo(LEG_KM, 9),
+      },
+    ]);
+  });
+
+  it("clamps values outside the edges into the end buckets", () => {
+    const stats = computeTripStats(track([0, 0, 50, 50]), {
+      bucketEdges: [10, 20, 30],
+    });
+    expect(stats.buckets.map((b) => b.durationMs)).toEqual([MIN, 2 * MIN]);
+  });
+
+  it("defaults to three even buckets over the observed values", () => {
+    const stats = computeTripStats(track([10, 30, 50, 50]));
+    // leg values 20, 40, 50
+    expect(stats.buckets.map((b) => [b.from, b.to])).toEqual([
+      [20, 30],
+      [30, 40],
+      [40, 50],
+    ]);
+    expect(stats.buckets.map((b) => b.durationMs)).toEqual([MIN, 0, 2 * MIN]);
+  });
+
+  it("returns zeros for tracks without legs", () => {
+    const stats = computeTripStats(track([10]));
+    expect(stats.elapsedMs).toBe(0);
+    expect(stats.startTime).toBeNaN();
+    expect(stats.avgSpeed).toBe(0);
+    expect(stats.byDay).toEqual([]);
+  });
+});
+
+describe("formatDuration", () => {
+  it.each([
+    [45_000, "45 s"],
+    [12 * MIN, "12 min"],
+    [185 * MIN, "3 h 05 min"],
+    [NaN, "-"],
+  ])("%d ms -> %s", (ms, text) => {
+    expect(formatDuration(ms)).toBe(text);
+  });
+});
@@ -0,0 +1,227 @@
+// Trip statistics over Point[] or a BuildResult: distance, duration, moving
+// vs stopped vs gap time, speeds, time per color-scale bucket and per-day /
+// per-hour breakdowns.
+
+import type { BuildResult, Point } from "./hotline";
+import { haversineKm } from "./hotline";
+
+// Buckets the colored value: segment.value for a BuildResult, speed for points
+export interface ValueBucket {
+  from: number; // inclusive, in the colored metric's unit
+  to: number; // exclusive (last bucket inclusive)
+  durationMs: number;
+  distanceKm: number;
+}
+
+export interface PeriodStats {
+  key: string; // local "YYYY-MM-DD" or "YYYY-MM-DD HH:00"
+  start: number; // ms epoch of the period start
+  distanceKm: number;
+  durationMs: number;
+  movingMs: number;
+  avgSpeed: number; // km/h over moving time
+  maxSpeed: number;
+}
+
+export interface TripStats {
+  startTime: number;
+  endTime: number;
+  distanceKm: number;
+  elapsedMs: number;
+  movingMs: number;
+  stoppedMs: number;
+  gapMs: number; // elapsed time with no segment (track gaps)
+  avgSpeed: number; // km/h over elapsed time
+  avgMovingSpeed: number; // km/h over moving time
+  maxSpeed: number;
+  buckets: ValueBucket[];
+  byDay: PeriodStats[];
+  byHour: PeriodStats[];
+}
+
+export interface TripStatsOptions {
+  movingThreshold?: number; // km/h; slower legs count as stopped (default 3)
+  // Bucket edges; default: three even buckets over the observed values
+  bucketEdges?: number[];
+}
+
+interface Leg {
+  km: number;
+  ms: number;
+  speed: number; // mean speed of the leg
+  maxSpeed: number;
+  value: number; // bucketed value
+  time0: number;
+}
+
+function legsFromPoints(points: Point[]): Leg[] {
+  const legs: Leg[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    legs.push({
+      km: haversineKm([a.lon, a.lat], [b.lon, b.lat]),
+      ms: Math.max(0, b.timestamp - a.timestamp),
+      speed: (a.speed + b.speed) / 2,
+      maxSpeed: Math.max(a.speed, b.speed),
+      value: (a.speed + b.speed) / 2,
+      time0: a.timestamp,
+    });
+  }
+  return legs;
+}
+
+function legsFromSegments(result: BuildResult): Leg[] {
+  return result.segments.map((s) => ({
+    km: haversineKm(s.path[0], s.path[1]),
+    ms: Math.max(0, s.time1 - s.time0),
+    speed: s.speed,
+    maxSpeed: Math.max(s.speed0, s.speed1),
+    value: s.value,
+    time0: s.time0,
+  }));
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function periodKey(t: number, unit: "day" | "hour"): [string, number] {
+  const d = new Date(t);
+  const day = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  if (unit === "day") {
+    return [
+      day,
+      new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime(),
+    ];
+  }
+  return [
+    `${day} ${pad(d.getHours())}:00`,
+    new Date(
+      d.getFullYear(),
+      d.getMonth(),
+      d.getDate(),
+      d.getHours()
+    ).getTime(),
+  ];
+}
+
+function groupBy(
+  legs: Leg[],
+  unit: "day" | "hour",
+  movingThreshold: number
+): PeriodStats[] {
+  const map = new Map<string, PeriodStats>();
+  for (const leg of legs) {
+    const [key, start] = periodKey(leg.time0, unit);
+    let p = map.get(key);
+    if (!p) {
+      p = {
+        key,
+        start,
+        distanceKm: 0,
+        durationMs: 0,
+        movingMs: 0,
+        avgSpeed: 0,
+        maxSpeed: 0,
+      };
+      map.set(key, p);
+    }
+    p.distanceKm += leg.km;
+    p.durationMs += leg.ms;
+    if (leg.speed >= movingThreshold) p.movingMs += leg.ms;
+    if (Number.isFinite(leg.maxSpeed))
+      p.maxSpeed = Math.max(p.maxSpeed, leg.maxSpeed);
+  }
+  const out = Array.from(map.values()).sort((a, b) => a.start - b.start);
+  for (const p of out) {
+    p.avgSpeed = p.movingMs > 0 ? p.distanceKm / (p.movingMs / 3_600_000) : 0;
+  }
+  return out;
+}
+
+export function computeTripStats(
+  input: Point[] | BuildResult,
+  options: TripStatsOptions = {}
+): TripStats {
+  const { movingThreshold = 3 } = options;
+  const legs = Array.isArray(input)
+    ? legsFromPoints(input)
+    : legsFromSegments(input);
+
+  let distanceKm = 0;
+  let movingMs = 0;
+  let stoppedMs = 0;
+  let maxSpeed = 0;
+  let movingKm = 0;
+  let minValue = Infinity;
+  let maxValue = -Infinity;
+  for (const leg of legs) {
+    distanceKm += leg.km;
+    if (leg.speed >= movingThreshold) {
+      movingMs += leg.ms;
+      movingKm += leg.km;
+    } else {
+      stoppedMs += leg.ms;
+    }
+    if (Number.isFinite(leg.maxSpeed))
+      maxSpeed = Math.max(maxSpeed, leg.maxSpeed);
+    if (Number.isFinite(leg.value)) {
+      minValue = Math.min(minValue, leg.value);
+      maxValue = Math.max(maxValue, leg.value);
+    }
+  }
+  const startTime = legs[0]?.time0 ?? NaN;
+  const last = legs[legs.length - 1];
+  const endTime = last ? last.time0 + last.ms : NaN;
+  const elapsedMs = last ? endTime - startTime : 0;
+
+  let edges = options.bucketEdges;
+  if (!edges) {
+    const lo = Number.isFinite(minValue) ? minValue : 0;
+    const hi = maxValue > lo ? maxValue : lo + 1;
+    edges = [0, 1, 2, 3].map((i) => lo + ((hi - lo) * i) / 3);
+  }
+  const buckets: ValueBucket[] = [];
+  for (let i = 0; i < edges.length - 1; i++) {
+    buckets.push({
+      from: edges[i],
+      to: edges[i + 1],
+      durationMs: 0,
+      distanceKm: 0,
+    });
+  }
+  for (const leg of legs) {
+    if (!buckets.length || !Number.isFinite(leg.value)) continue;
+    // clamp like the color scale does
+    let idx = buckets.findIndex((b) => leg.value < b.to);
+    if (idx < 0) idx = buckets.length - 1;
+    buckets[idx].durationMs += leg.ms;
+    buckets[idx].distanceKm += leg.km;
+  }
+
+  return {
+    startTime,
+    endTime,
+    distanceKm,
+    elapsedMs,
+    movingMs,
+    stoppedMs,
+    // legs never overlap, so whatever they don't cover lies in gaps
+    gapMs: Math.max(0, elapsedMs - movingMs - stoppedMs),
+    avgSpeed: elapsedMs > 0 ? distanceKm / (elapsedMs / 3_600_000) : 0,
+    avgMovingSpeed: movingMs > 0 ? movingKm / (movingMs / 3_600_000) : 0,
+    maxSpeed,
+    buckets,
+    byDay: groupBy(legs, "day", movingThreshold),
+    byHour: groupBy(legs, "hour", movingThreshold),
+  };
+}
+
+// "3 h 05 min", "12 min", "45 s"
+export function formatDuration(ms: number): string {
+  if (!Number.isFinite(ms)) return "-";
+  const totalMin = Math.floor(ms / 60_000);
+  if (totalMin < 1) return `${Math.round(ms / 1000)} s`;
+  const h = Math.floor(totalMin / 60);
+  const m = totalMin % 60;
+  return h ? `${h} h ${pad(m)} min` : `${m} min`;
+}
@@ -0,0 +1,27 @@
+// Speed units. Points always carry km/h; other units are for display and
+// user input only, converted at the edges.
+
+export type SpeedUnit = "kmh" | "ms" | "mph" | "knots";
+
+export const SPEED_UNITS: Record<SpeedUnit, { label: string; toKmh: number }> =
+  {
+    kmh: { label: "km/h", toKmh: 1 },
+    mph: { label: "mph", toKmh: 1.609344 },
+    ms: { label: "m/s", toKmh: 3.6 },
+    knots: { label: "kn", toKmh: 1.852 },
+  };
+
+export function speedFromKmh(kmh: number, unit: SpeedUnit): number {
+  return kmh / SPEED_UNITS[unit].toKmh;
+}
+
+export function speedToKmh(value: number, unit: SpeedUnit): number {
+  return value * SPEED_UNITS[unit].toKmh;
+}
+
+// e.g. formatSpeed(100, "mph") -> "62.1 mph"
+export function formatSpeed(kmh: number, unit: SpeedUnit, digits = 1): string {
+  return `${speedFromKmh(kmh, unit).toFixed(digits)} ${
+    SPEED_UNITS[unit].label
+  }`;
+}